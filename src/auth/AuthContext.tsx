@@ -31,8 +31,8 @@ export interface AuthContextValue {
   loginAdmin: () => Promise<void>;
   /** Clear user and error (return to login view) */
   logout: () => void;
-  /** Get an access token for the given scopes. Defaults to ['User.ReadWrite.All'] */
-  getAccessToken: (scopes?: string[]) => Promise<string>;
+  /** Get an access token for the given scopes. Defaults to ['User.ReadWrite.All']. forceRefresh bypasses the token cache. */
+  getAccessToken: (scopes?: string[], forceRefresh?: boolean) => Promise<string>;
   /** Last auth error, if any */
   error: Error | null;
   /** Clear the last error */
@@ -97,10 +97,10 @@ export function AuthProvider({ children, accountManager }: AuthProviderProps) {
   }, [accountManager]);
 
   const getAccessToken = useCallback(
-    async (scopes?: string[]) => {
+    async (scopes?: string[], forceRefresh?: boolean) => {
       setError(null);
       try {
-        return await accountManager.acquireToken(scopes ?? ['User.ReadWrite.All']);
+        return await accountManager.acquireToken(scopes ?? ['User.ReadWrite.All'], forceRefresh);
       } catch (err) {
         const e = err instanceof Error ? err : new Error(String(err));
         setError(e);
@@ -37,6 +37,7 @@ const NESTED_APP_AUTH_REQUIREMENT = { name: "NestedAppAuth", version: "1.1" } as
 export class AccountManager {
   private pca: IPublicClientApplication | undefined = undefined;
   private _dialogApiResult: Promise<string> | null = null;
+  private _dialogRefresh: Promise<string> | null = null;
   private _usingFallbackDialog = false;
   private readonly _boundSignOut = () => this.signOut();
 
@@ -98,10 +99,22 @@ export class AccountManager {
     return undefined;
   }
 
-  async acquireToken(scopes: string[]): Promise<string> {
+  /**
+   * Acquires an access token for the given scopes, silently if possible.
+   * @param forceRefresh - Skip the MSAL token cache (e.g. after Graph answered 401).
+   */
+  async acquireToken(scopes: string[], forceRefresh = false): Promise<string> {
     // Check if the user is already signed in via fallback dialog API.
     if (this._dialogApiResult) {
-      return this._dialogApiResult;
+      if (!forceRefresh) {
+        return this._dialogApiResult;
+      }
+      // The cached dialog token was rejected: get a new one through the dialog, bypassing its cache.
+      // Requests that fail at the same time share one dialog.
+      this._dialogRefresh ??= this.getTokenWithDialogApi('refresh=1').finally(() => {
+        this._dialogRefresh = null;
+      });
+      return this._dialogRefresh;
     }
     
     if (this.pca === undefined) {
@@ -112,7 +125,8 @@ export class AccountManager {
     
     try {
       console.log("Trying to acquire token silently...");
-      const tokenRequest = getTokenRequest(scopes, false, undefined, loginHint);
+      // The nested app client passes forceRefresh on to the host for ssoSilent as well.
+      const tokenRequest = { ...getTokenRequest(scopes, false, undefined, loginHint), forceRefresh };
       // If we have a login hint, use SSO silent flow which is required for Word, Excel, or PowerPoint on the web.
       const authResult = loginHint 
         ? await this.pca!.ssoSilent(tokenRequest)
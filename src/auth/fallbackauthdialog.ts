@@ -41,6 +41,8 @@ import {
 
     // Admin mode: skip silent acquisition and always show the account picker.
     const isAdminLogin = getQueryParameter("admin") === "1";
+    // Refresh mode: the add-in's token was rejected, so skip the token cache.
+    const forceRefresh = getQueryParameter("refresh") === "1";
 
     try {
       if (getQueryParameter("logout") === "1") {
@@ -68,7 +70,10 @@ import {
     if (!isAdminLogin) {
       try {
         if (publicClientApp.getActiveAccount()) {
-          const result = await publicClientApp.acquireTokenSilent(getTokenRequest(defaultScopes, false));
+          const result = await publicClientApp.acquireTokenSilent({
+            ...getTokenRequest(defaultScopes, false),
+            forceRefresh,
+          });
           if (result) {
             return returnResult(publicClientApp, result);
           }
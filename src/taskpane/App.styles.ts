@@ -36,6 +36,14 @@ export const useAppStyles = makeStyles({
       animation: 'none',
     },
   },
+  cardOptions: {
+    display: 'flex',
+    flexDirection: 'column',
+    ...shorthands.gap('8px'),
+  },
+  actionStatus: {
+    color: tokens.colorPaletteMarigoldForeground1,
+  },
   verifyResult: {
     ...shorthands.margin('12px', 0, 0, 0),
     ...shorthands.padding('12px'),
@@ -93,6 +101,12 @@ export const useAppStyles = makeStyles({
     color: tokens.colorPaletteRedForeground1,
     fontWeight: 700,
   },
+  verifyMessageLine: {
+    display: 'flex',
+    alignItems: 'center',
+    ...shorthands.gap('8px'),
+    ...shorthands.margin('8px', 0, 0, 0),
+  },
   verifyTableIcon: {
     display: 'block',
     flexShrink: 0,
@@ -13,6 +13,10 @@ import {
 import { ProfileMenu } from './components/ProfileMenu';
 import { CreateTab } from './components/CreateTab';
 import { UpdateTab } from './components/UpdateTab';
+import { OffboardTab } from './components/OffboardTab';
+import { RestoreTab } from './components/RestoreTab';
+import { ResetPasswordTab } from './components/ResetPasswordTab';
+import { SettingsTab } from './components/SettingsTab';
 import { useAuth } from '@/auth/AuthContext.tsx';
 import { useAppStyles } from './App.styles';
 
@@ -217,6 +221,10 @@ function App() {
         <TabList selectedValue={selectedTab} onTabSelect={onTabSelect}>
           <Tab value="create">Create Users</Tab>
           <Tab value="update">Update Users</Tab>
+          <Tab value="offboard">Offboard Users</Tab>
+          <Tab value="restore">Restore Users</Tab>
+          <Tab value="reset">Reset Password</Tab>
+          <Tab value="settings">Settings</Tab>
         </TabList>
       </div>
 
@@ -232,6 +240,10 @@ function App() {
         )}
         {selectedTab === 'create' && <CreateTab />}
         {selectedTab === 'update' && <UpdateTab />}
+        {selectedTab === 'offboard' && <OffboardTab />}
+        {selectedTab === 'restore' && <RestoreTab />}
+        {selectedTab === 'reset' && <ResetPasswordTab />}
+        {selectedTab === 'settings' && <SettingsTab />}
       </div>
     </div>
   );
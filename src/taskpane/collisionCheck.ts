@@ -0,0 +1,192 @@
+/**
+ * Optional online Verify step: checks the rows of the CreateUsers and UpdateUsers tables
+ * for collisions with existing users in Entra ID (sent through $batch):
+ * UPN, mail (including proxyAddresses), BMS ID (employeeId), and for Update the Object ID.
+ */
+
+import { escapeODataString, type GraphRequestOptions } from './graphHelpers';
+import {
+  getBatchErrorMessage,
+  isBatchSuccess,
+  sendGraphBatch,
+  type GraphBatchRequest,
+} from './graphBatch';
+import type { TokenSession } from './tokenSession';
+import { rowIssue, type ExternalFindings, type RowIssue } from './verifyCore';
+
+export interface CollisionCheckRow {
+  userPrincipalName: string;
+  mail: string;
+  /** BMS ID (stored as employeeId). */
+  employeeId: string;
+  /** Update only: the row's user; matches with this user are not collisions. */
+  objectId?: string;
+  /**
+   * Update only: the UPN the Object ID is expected to have
+   * (the loaded UPN, so an intended UPN change is not reported).
+   */
+  expectedUserPrincipalName?: string;
+}
+
+type CollisionKind = 'upn' | 'mail' | 'proxyAddress' | 'employeeId' | 'objectId';
+
+/** Table column of each checked field, for the issues. */
+export interface CollisionColumns {
+  userPrincipalName: number;
+  mail: number;
+  employeeId: number;
+  objectId?: number;
+}
+
+const RULES: Record<CollisionKind, string> = {
+  upn: 'upn-exists',
+  mail: 'mail-exists',
+  proxyAddress: 'mail-exists',
+  employeeId: 'bms-id-exists',
+  objectId: 'object-id-mismatch',
+};
+
+function columnOf(kind: CollisionKind, columns: CollisionColumns): number | null {
+  switch (kind) {
+    case 'upn':
+      return columns.userPrincipalName;
+    case 'mail':
+    case 'proxyAddress':
+      return columns.mail;
+    case 'employeeId':
+      return columns.employeeId;
+    case 'objectId':
+      return columns.objectId ?? null;
+  }
+}
+
+interface GraphUserRef {
+  id?: string;
+  userPrincipalName?: string | null;
+}
+
+const SELECT = '$select=id,userPrincipalName';
+
+function filterRequest(id: string, filter: string): GraphBatchRequest {
+  return {
+    id,
+    method: 'GET',
+    url: `/users?$filter=${encodeURIComponent(filter)}&${SELECT}&$top=5`,
+  };
+}
+
+function buildRequests(row: CollisionCheckRow, i: number): GraphBatchRequest[] {
+  const requests: GraphBatchRequest[] = [];
+  const id = (kind: CollisionKind) => `${i}:${kind}`;
+  if (row.userPrincipalName) {
+    const upn = escapeODataString(row.userPrincipalName);
+    requests.push(filterRequest(id('upn'), `userPrincipalName eq '${upn}'`));
+  }
+  if (row.mail) {
+    const mail = escapeODataString(row.mail);
+    requests.push(filterRequest(id('mail'), `mail eq '${mail}'`));
+    requests.push(
+      filterRequest(id('proxyAddress'), `proxyAddresses/any(p:p eq 'smtp:${mail}')`)
+    );
+  }
+  if (row.employeeId) {
+    const employeeId = escapeODataString(row.employeeId);
+    requests.push(filterRequest(id('employeeId'), `employeeId eq '${employeeId}'`));
+  }
+  if (row.objectId) {
+    requests.push({
+      id: id('objectId'),
+      method: 'GET',
+      url: `/users/${encodeURIComponent(row.objectId)}?${SELECT}`,
+    });
+  }
+  return requests;
+}
+
+function collisionMessage(kind: CollisionKind, row: CollisionCheckRow, otherUpn: string): string {
+  switch (kind) {
+    case 'upn':
+      return `User Principal Name: '${row.userPrincipalName}' already exists in Entra ID`;
+    case 'mail':
+      return `Mail: '${row.mail}' is already the mail of '${otherUpn}'`;
+    case 'proxyAddress':
+      return `Mail: '${row.mail}' is already a proxy address of '${otherUpn}'`;
+    case 'employeeId':
+      return `BMS ID: '${row.employeeId}' is already the employeeId of '${otherUpn}'`;
+    case 'objectId':
+      return `Object ID: belongs to '${otherUpn}', not '${row.expectedUserPrincipalName}'`;
+  }
+}
+
+/**
+ * Queries Graph for users that collide with the rows. Matches with the row's own user
+ * (by Object ID) are ignored. Failed lookups are reported as row warnings (they do not block).
+ */
+export async function checkCollisions(
+  rows: CollisionCheckRow[],
+  columns: CollisionColumns,
+  session: TokenSession,
+  options: GraphRequestOptions = {}
+): Promise<ExternalFindings> {
+  const requests = rows.flatMap((row, i) => buildRequests(row, i));
+  const responses = await sendGraphBatch(requests, session, options);
+
+  const rowIssues = new Map<number, RowIssue[]>();
+  const addIssue = (i: number, issue: RowIssue) =>
+    rowIssues.set(i, [...(rowIssues.get(i) ?? []), issue]);
+
+  for (const [id, response] of responses) {
+    const [index, kind] = id.split(':') as [string, CollisionKind];
+    const i = Number(index);
+    const row = rows[i]!;
+    const ownId = row.objectId?.toLowerCase();
+    const column = columnOf(kind, columns);
+
+    if (kind === 'objectId' && response.status === 404) {
+      addIssue(
+        i,
+        rowIssue(
+          column,
+          'object-id-not-found',
+          'Object ID: no user with this Object ID exists in Entra ID'
+        )
+      );
+      continue;
+    }
+    if (!isBatchSuccess(response)) {
+      addIssue(
+        i,
+        rowIssue(
+          column,
+          'collision-check-failed',
+          `Collision check failed: ${getBatchErrorMessage(response)}`,
+          'warning'
+        )
+      );
+      continue;
+    }
+
+    if (kind === 'objectId') {
+      const upn = (response.body as GraphUserRef).userPrincipalName ?? '';
+      const expected = row.expectedUserPrincipalName ?? '';
+      if (expected && upn.toLowerCase() !== expected.toLowerCase()) {
+        addIssue(i, rowIssue(column, RULES[kind], collisionMessage(kind, row, upn)));
+      }
+      continue;
+    }
+    const users = (response.body as { value?: GraphUserRef[] } | undefined)?.value ?? [];
+    const other = users.find((u) => (u.id ?? '').toLowerCase() !== ownId);
+    if (other) {
+      addIssue(
+        i,
+        rowIssue(
+          column,
+          RULES[kind],
+          collisionMessage(kind, row, other.userPrincipalName ?? other.id ?? '')
+        )
+      );
+    }
+  }
+
+  return { rowIssues, warnings: [] };
+}
@@ -1,22 +1,26 @@
 /**
- * Reusable action card: Title, description, and a primary action button.
+ * Reusable action card: Title, description, a primary action button, and an optional status line.
  */
 
 import type { ReactNode } from 'react';
 import {
   Body1,
   Button,
+  Caption1,
   Card,
   CardFooter,
   CardHeader,
   Title3,
 } from '@fluentui/react-components';
+import { useAppStyles } from '../App.styles';
 
 interface ActionCardProps {
   title: string;
   description: string;
   buttonLabel: string;
   onAction: () => void;
+  /** Optional progress message shown below the button while the action runs (e.g. throttling). */
+  status?: string | null;
   /** Optional extra content rendered after the CardFooter (e.g. VerifyResultPanel). */
   children?: ReactNode;
 }
@@ -26,8 +30,10 @@ export function ActionCard({
   description,
   buttonLabel,
   onAction,
+  status,
   children,
 }: ActionCardProps) {
+  const classes = useAppStyles();
   return (
     <Card>
       <CardHeader
@@ -41,6 +47,11 @@ export function ActionCard({
           </Button>
         }
       />
+      {status && (
+        <Caption1 className={classes.actionStatus} role="status">
+          {status}
+        </Caption1>
+      )}
       {children}
     </Card>
   );
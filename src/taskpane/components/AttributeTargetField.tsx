@@ -0,0 +1,113 @@
+/**
+ * Target of a custom column for the Settings tab:
+ * extension attribute (1–15), schema extension property, or custom security attribute.
+ */
+
+import { Dropdown, Field, Input, Option, SpinButton } from '@fluentui/react-components';
+import { MAX_EXTENSION_ATTRIBUTE, MIN_EXTENSION_ATTRIBUTE } from '../tenantConfig';
+import type { AttributeTarget, AttributeTargetType } from '../userAttributes';
+
+const TARGET_TYPE_LABELS: Record<AttributeTargetType, string> = {
+  extensionAttribute: 'Extension attribute',
+  schemaExtension: 'Schema extension',
+  customSecurityAttribute: 'Custom security attribute',
+};
+
+interface AttributeTargetFieldProps {
+  /** Column header, used as the label. */
+  label: string;
+  target: AttributeTarget;
+  /** Name suggested for the property or attribute when the type changes (e.g. localHrId). */
+  defaultName: string;
+  onChange: (target: AttributeTarget) => void;
+}
+
+function emptyTarget(type: AttributeTargetType, defaultName: string): AttributeTarget {
+  switch (type) {
+    case 'extensionAttribute':
+      return { type, number: MIN_EXTENSION_ATTRIBUTE };
+    case 'schemaExtension':
+      return { type, extensionId: '', property: defaultName };
+    case 'customSecurityAttribute':
+      return { type, attributeSet: '', attribute: defaultName };
+  }
+}
+
+export function AttributeTargetField({
+  label,
+  target,
+  defaultName,
+  onChange,
+}: AttributeTargetFieldProps) {
+  return (
+    <>
+      <Field label={`${label}: stored in`}>
+        <Dropdown
+          value={TARGET_TYPE_LABELS[target.type]}
+          selectedOptions={[target.type]}
+          onOptionSelect={(_, data) => {
+            const type = data.optionValue as AttributeTargetType | undefined;
+            if (type && type !== target.type) onChange(emptyTarget(type, defaultName));
+          }}
+        >
+          {(Object.keys(TARGET_TYPE_LABELS) as AttributeTargetType[]).map((type) => (
+            <Option key={type} value={type}>
+              {TARGET_TYPE_LABELS[type]}
+            </Option>
+          ))}
+        </Dropdown>
+      </Field>
+      {target.type === 'extensionAttribute' && (
+        <Field
+          label="Extension attribute"
+          hint={`${MIN_EXTENSION_ATTRIBUTE}–${MAX_EXTENSION_ATTRIBUTE}`}
+        >
+          <SpinButton
+            value={target.number}
+            min={MIN_EXTENSION_ATTRIBUTE}
+            max={MAX_EXTENSION_ATTRIBUTE}
+            onChange={(_, data) => {
+              const value = data.value ?? Number(data.displayValue);
+              if (Number.isFinite(value)) onChange({ ...target, number: Math.round(value) });
+            }}
+          />
+        </Field>
+      )}
+      {target.type === 'schemaExtension' && (
+        <>
+          <Field label="Schema extension ID" hint="e.g. contoso_hrData">
+            <Input
+              value={target.extensionId}
+              onChange={(_, data) => onChange({ ...target, extensionId: data.value.trim() })}
+            />
+          </Field>
+          <Field label="Property" hint="String property of the schema extension">
+            <Input
+              value={target.property}
+              onChange={(_, data) => onChange({ ...target, property: data.value.trim() })}
+            />
+          </Field>
+        </>
+      )}
+      {target.type === 'customSecurityAttribute' && (
+        <>
+          <Field label="Attribute set">
+            <Input
+              value={target.attributeSet}
+              onChange={(_, data) => onChange({ ...target, attributeSet: data.value.trim() })}
+            />
+          </Field>
+          <Field
+            label="Attribute"
+            hint="String attribute; needs an attribute assignment role to read and write"
+          >
+            <Input
+              value={target.attribute}
+              onChange={(_, data) => onChange({ ...target, attribute: data.value.trim() })}
+            />
+          </Field>
+        </>
+      )}
+    </>
+  );
+}
@@ -1,84 +1,100 @@
 /**
- * Create Users tab: Initialize Table, Verify, and Create actions.
+ * Create Users tab: Initialize Table, Verify, Preview, and Create actions.
  */
 
 import { useState } from 'react';
+import { Checkbox } from '@fluentui/react-components';
 import { useAuth } from '@/auth/AuthContext.tsx';
-import { createUser } from '../createUser';
+import {
+  createUsers,
+  previewCreateUsers,
+  DEFAULT_TEMPORARY_ACCESS_PASS_SETTINGS,
+  type CredentialMode,
+  type TemporaryAccessPassSettings,
+} from '../createUser';
+import { formatThrottleStatus } from '../graphHelpers';
+import { formatGroupMembershipResults } from '../groupMembership';
+import { formatLicenseAssignmentResult } from '../licenseAssignment';
+import { formatManagerAssignmentResult } from '../managerAssignment';
+import { createTokenSession, formatTokenUsage } from '../tokenSession';
+import { describePasswordPolicy } from '../passwordGenerator';
 import {
   verifyUsers,
+  runCreateOnlineChecks,
   NO_INPUT_TABLE_VERIFY_RESULT,
   type VerifyUsersResult,
 } from '../verifyUsers';
+import { failedVerifyResult, formatDomainList } from '../verifyCore';
 import {
   ensureInputAndGetUsersTable,
   applyVerifyResultToSheet,
   hasTableData,
 } from '../excelUsersTable';
+import { clearIssues, writeIssuesSheet } from '../excelIssuesSheet';
+import { readTenantConfig } from '../excelTenantConfig';
 import { initSheetTemplate } from '../initSheetTemplate';
+import { writeRequestPreviewSheet } from '../excelRequestPreview';
+import { TableColumnsError } from '../tableColumns';
+import {
+  attributeScopes,
+  CREATE_TABLE,
+  filledKeys,
+  requiredHeaders,
+  templateColumnWidths,
+  templateLastColumnLetter,
+  uniqueHeaders,
+} from '../userAttributes';
+import type { TenantConfig } from '../tenantConfig';
 import { useAppStyles } from '../App.styles';
 import { ActionCard } from './ActionCard';
 import { VerifyResultPanel } from './VerifyResultPanel';
+import { CredentialOptions } from './CredentialOptions';
+
+const COL = CREATE_TABLE.col;
 
-const USERS_TABLE_HEADERS = [
-  'User Principal Name',
-  'Mail',
-  'BMS ID',
-  'Local HR ID',
-  'SN Ticket ID',
-  'First Name',
-  'Last Name',
-  'Display Name',
-  'Country',
-  'City',
-  'Job Title',
-  'Office Location',
-  'Street Address',
-  'State',
-  'Postal Code',
-  'Business Phone',
-  'Mobile Phone',
-  'Company Name',
-  'Department',
-] as const;
-
-const CREATE_TABLE_DESCRIPTION =
+const createTableDescription = (tenant: TenantConfig) =>
   'This table is used to create new users in Entra ID.\n' +
   'Data is validated by Verify before creation. The following conditions apply:\n\n' +
-  '\u2022 Required fields: User Principal Name, Mail, First Name, Last Name, Display Name, Country, City\n' +
+  `\u2022 Required fields: ${requiredHeaders('create', tenant).join(', ')}\n` +
   '\u2022 BMS ID or Local HR ID must be filled\n' +
   '\u2022 BMS ID: digits only, no leading zero\n' +
-  '\u2022 UPN domain: majorel.com\n' +
-  '\u2022 Mail domain: majorel.com or mj.teleperformance.com\n' +
+  `\u2022 UPN domain: ${formatDomainList(tenant.upnDomains)}\n` +
+  `\u2022 Mail domain: ${formatDomainList(tenant.mailDomains)}\n` +
   '\u2022 UPN and Mail local part must match\n' +
-  '\u2022 No duplicates in: User Principal Name, Mail, BMS ID, Local HR ID\n' +
-  '\u2022 Max. 100 rows';
-
-const CREATE_COL_WIDTHS: [string, number][] = [
-  ['A:A', 150], ['B:B', 200], ['C:C', 70], ['D:D', 70],
-  ['E:E', 90], ['F:F', 90], ['G:G', 90], ['H:H', 130],
-  ['I:I', 100], ['J:J', 100], ['K:K', 100], ['L:L', 100],
-  ['M:M', 100], ['N:N', 100], ['O:O', 100], ['P:P', 100],
-  ['Q:Q', 100], ['R:R', 100], ['S:S', 100],
-];
+  `\u2022 No duplicates in: ${uniqueHeaders('create').join(', ')}\n` +
+  '\u2022 Groups (optional): group names or IDs separated by ";", each must match exactly one group\n' +
+  '\u2022 License SKUs (optional): SKU part numbers (e.g. ENTERPRISEPACK) or SKU IDs separated by ";"\n' +
+  '\u2022 Usage Location: two-letter country code (e.g. DE), required when License SKUs are set\n' +
+  '\u2022 Hire Date, Leave Date (optional): YYYY-MM-DD or an Excel date; Leave Date not before Hire Date\n' +
+  '\u2022 Manager UPN (optional): must be an existing, enabled user other than the user itself\n' +
+  `\u2022 Max. ${tenant.maxRows} rows`;
 
 export function CreateTab() {
   const classes = useAppStyles();
   const { getAccessToken } = useAuth();
   const [verifyResult, setVerifyResult] = useState<VerifyUsersResult | null>(null);
+  const [createStatus, setCreateStatus] = useState<string | null>(null);
+  const [previewStatus, setPreviewStatus] = useState<string | null>(null);
+  const [checkCollisions, setCheckCollisions] = useState(false);
+  const [writeIssues, setWriteIssues] = useState(false);
+  const [credentialMode, setCredentialMode] = useState<CredentialMode>('password');
+  const [tapSettings, setTapSettings] = useState<TemporaryAccessPassSettings>(
+    DEFAULT_TEMPORARY_ACCESS_PASS_SETTINGS
+  );
 
   const handleRunInit = async () => {
     try {
       await Excel.run(async (context) => {
+        const tenant = await readTenantConfig(context);
         await initSheetTemplate(context, {
           sheetName: 'Create',
           tableName: 'CreateUsers',
           title: 'Create',
-          description: CREATE_TABLE_DESCRIPTION,
-          headers: USERS_TABLE_HEADERS,
-          lastColumnLetter: 'S',
-          columnWidths: CREATE_COL_WIDTHS,
-          descriptionRowHeight: 185,
+          description: createTableDescription(tenant),
+          headers: CREATE_TABLE.headers,
+          lastColumnLetter: templateLastColumnLetter('create'),
+          columnWidths: templateColumnWidths('create'),
+          descriptionRowHeight: 265,
         });
       });
     } catch (err) {
@@ -88,45 +104,108 @@ export function CreateTab() {
 
   const handleRunVerify = async () => {
     try {
+      const session = createTokenSession((forceRefresh) =>
+        getAccessToken(['User.Read.All', 'Group.Read.All', 'Organization.Read.All'], forceRefresh)
+      );
       const result = await Excel.run(async (context) => {
         const tableData = await ensureInputAndGetUsersTable(context);
         if (!hasTableData(tableData)) {
           return NO_INPUT_TABLE_VERIFY_RESULT;
         }
-        const { rows, dataBodyRange } = tableData;
-        const verifyResult = verifyUsers(rows);
-        await applyVerifyResultToSheet(context, dataBodyRange, rows, verifyResult);
+        const { rows, dataBodyRange, columns } = tableData;
+        const tenant = await readTenantConfig(context);
+        const onlineChecks = await runCreateOnlineChecks(rows, session, {
+          collisions: checkCollisions,
+        });
+        const verifyResult = verifyUsers(rows, tenant, onlineChecks.findings);
+        await applyVerifyResultToSheet(context, dataBodyRange, columns, verifyResult);
+        if (writeIssues) {
+          await writeIssuesSheet(context, dataBodyRange, columns, COL.userPrincipalName, verifyResult);
+        } else if (verifyResult.success) {
+          await clearIssues(context, dataBodyRange);
+        }
         return verifyResult;
       });
 
       setVerifyResult(result);
-    } catch {
-      setVerifyResult({
-        success: false,
-        totalRows: 0,
-        okCount: 0,
-        problemCount: 0,
-        problemRowIndices: [],
+    } catch (err) {
+      setVerifyResult(failedVerifyResult(err));
+    }
+  };
+
+  const handleRunPreview = async () => {
+    let message: string | null = null;
+    try {
+      const session = createTokenSession((forceRefresh) =>
+        getAccessToken(['User.Read.All', 'Group.Read.All', 'Organization.Read.All'], forceRefresh)
+      );
+      const result = await Excel.run(async (context) => {
+        const tableData = await ensureInputAndGetUsersTable(context);
+        if (!hasTableData(tableData)) {
+          return NO_INPUT_TABLE_VERIFY_RESULT;
+        }
+        const { rows, dataBodyRange, columns } = tableData;
+        const tenant = await readTenantConfig(context);
+        const onlineChecks = await runCreateOnlineChecks(rows, session);
+        const verifyResult = verifyUsers(rows, tenant, onlineChecks.findings);
+        await applyVerifyResultToSheet(context, dataBodyRange, columns, verifyResult);
+        if (verifyResult.success) await clearIssues(context, dataBodyRange);
+        if (!verifyResult.success || verifyResult.noInputTable) {
+          message = 'Create would not run: fix the problems found by Verify first.';
+          return verifyResult;
+        }
+
+        const previews = await previewCreateUsers(rows, session, {
+          credentialMode,
+          tenant,
+          onThrottle: (waitMs, attempt) =>
+            setPreviewStatus(formatThrottleStatus(waitMs, attempt)),
+        });
+        await writeRequestPreviewSheet(
+          context,
+          'Create',
+          rows.map((row) => String(row[COL.userPrincipalName] ?? '').trim()),
+          previews
+        );
+        return verifyResult;
       });
+
+      setVerifyResult(result);
+    } catch (err) {
+      console.error('Preview Create failed:', err);
+      if (err instanceof TableColumnsError) setVerifyResult(failedVerifyResult(err));
+    } finally {
+      setPreviewStatus(message);
     }
   };
 
   const handleRunCreate = async () => {
     try {
-      const accessToken = await getAccessToken(['User.ReadWrite.All']);
+      const useTap = credentialMode === 'temporaryAccessPass';
+      const tenant = await Excel.run(readTenantConfig);
       const runResult = await Excel.run(async (context) => {
         const tableData = await ensureInputAndGetUsersTable(context);
         if (!hasTableData(tableData)) {
           return { verifyResult: NO_INPUT_TABLE_VERIFY_RESULT, created: false };
         }
-        const { rows, dataBodyRange } = tableData;
-        const verifyResultData = verifyUsers(rows);
-        await applyVerifyResultToSheet(
-          context,
-          dataBodyRange,
-          rows,
-          verifyResultData
+        const { rows, dataBodyRange, columns } = tableData;
+        const scopes = [
+          'User.ReadWrite.All',
+          ...attributeScopes(tenant, 'write', filledKeys('create', rows)),
+          'Group.Read.All',
+          'GroupMember.ReadWrite.All',
+          'Organization.Read.All',
+          ...(useTap ? ['UserAuthenticationMethod.ReadWrite.All'] : []),
+        ];
+        const session = createTokenSession((forceRefresh) =>
+          getAccessToken(scopes, forceRefresh)
         );
+        // Acquire the first token up front so sign-in problems surface before any sheet changes.
+        await session.getToken();
+        const onlineChecks = await runCreateOnlineChecks(rows, session);
+        const verifyResultData = verifyUsers(rows, tenant, onlineChecks.findings);
+        await applyVerifyResultToSheet(context, dataBodyRange, columns, verifyResultData);
+        if (verifyResultData.success) await clearIssues(context, dataBodyRange);
 
         if (!verifyResultData.success || verifyResultData.noInputTable) {
           return { verifyResult: verifyResultData, created: false };
@@ -148,35 +227,73 @@ export function CreateTab() {
           'User Principal Name',
           'Display Name',
           'Object Id',
-          'Generated Password',
+          ...(useTap
+            ? ['Temporary Access Pass', 'TAP Expires']
+            : ['Generated Password', 'Password Policy']),
           'Status',
           'Error',
-        ] as const;
+          'Groups',
+          'Licenses',
+          'Manager',
+          'Retries',
+          'Token',
+        ];
 
-        const headerRange = newSheet.getRange('A1:G1');
-        headerRange.values = [LOG_HEADERS as unknown as string[]];
-        const logTable = newSheet.tables.add('A1:G1', true);
+        const headerRange = newSheet.getRange('A1:M1');
+        headerRange.values = [LOG_HEADERS];
+        const logTable = newSheet.tables.add('A1:M1', true);
 
         newSheet.getRange('A:C').format.columnWidth = 170;
         newSheet.getRange('D:D').format.columnWidth = 210;
-        newSheet.getRange('E:F').format.columnWidth = 170;
-        newSheet.getRange('G:G').format.columnWidth = 210;
-
-        const logRows: (string | number)[][] = [];
-        for (const row of rows) {
-          const upn = String(row[0] ?? '').trim();
-          const displayName = String(row[7] ?? '').trim();
-          const result = await createUser(row, accessToken);
-          logRows.push([
-            new Date().toISOString(),
+        newSheet.getRange('E:E').format.columnWidth = 170;
+        newSheet.getRange('F:F').format.columnWidth = 260;
+        newSheet.getRange('G:G').format.columnWidth = 170;
+        newSheet.getRange('H:H').format.columnWidth = 210;
+        newSheet.getRange('I:K').format.columnWidth = 260;
+        newSheet.getRange('L:L').format.columnWidth = 70;
+        newSheet.getRange('M:M').format.columnWidth = 170;
+
+        const passwordPolicy = tenant.passwordPolicy;
+        const passwordPolicyDescription = describePasswordPolicy(passwordPolicy);
+        const results = await createUsers(rows, session, {
+          passwordPolicy,
+          credentialMode,
+          temporaryAccessPass: tapSettings,
+          groups: onlineChecks.groups.resolution,
+          licenses: onlineChecks.licenses.resolution,
+          managers: onlineChecks.managers.resolution,
+          tenant,
+          onThrottle: (waitMs, attempt) =>
+            setCreateStatus(formatThrottleStatus(waitMs, attempt)),
+        });
+        const timestamp = new Date().toISOString();
+        const logRows: (string | number)[][] = rows.map((row, i) => {
+          const upn = String(row[COL.userPrincipalName] ?? '').trim();
+          const displayName = String(row[COL.displayName] ?? '').trim();
+          const result = results[i]!;
+          return [
+            timestamp,
             upn,
             displayName,
             result.objectId ?? '',
-            result.generatedPassword ?? '',
+            ...(useTap
+              ? [
+                  result.temporaryAccessPass?.pass ?? '',
+                  result.temporaryAccessPass?.expiresDateTime ?? '',
+                ]
+              : [
+                  result.generatedPassword ?? '',
+                  result.generatedPassword ? passwordPolicyDescription : '',
+                ]),
             result.status,
             result.error ?? '',
-          ]);
-        }
+            formatGroupMembershipResults(result.groupResults),
+            formatLicenseAssignmentResult(result.licenseResult),
+            formatManagerAssignmentResult(result.managerResult),
+            result.retries,
+            formatTokenUsage(result.token),
+          ];
+        });
 
         if (logRows.length > 0) {
           logTable.rows.add(undefined, logRows);
@@ -189,6 +306,9 @@ export function CreateTab() {
       setVerifyResult(runResult.verifyResult);
     } catch (err) {
       console.error('Create failed:', err);
+      if (err instanceof TableColumnsError) setVerifyResult(failedVerifyResult(err));
+    } finally {
+      setCreateStatus(null);
     }
   };
 
@@ -206,14 +326,41 @@ export function CreateTab() {
         buttonLabel="Verify"
         onAction={handleRunVerify}
       >
+        <div className={classes.cardOptions}>
+          <Checkbox
+            label="Check for existing users in Entra ID (UPN, mail, BMS ID)"
+            checked={checkCollisions}
+            onChange={(_, data) => setCheckCollisions(data.checked === true)}
+          />
+          <Checkbox
+            label="Write the issues to the Issues sheet"
+            checked={writeIssues}
+            onChange={(_, data) => setWriteIssues(data.checked === true)}
+          />
+        </div>
         <VerifyResultPanel result={verifyResult} noDataLabel="No Create Data" />
       </ActionCard>
+      <ActionCard
+        title="Preview"
+        description="Writes the requests Create would send to a preview sheet, without changing Entra ID."
+        buttonLabel="Preview"
+        onAction={handleRunPreview}
+        status={previewStatus}
+      />
       <ActionCard
         title="Create"
         description="Creates new user accounts in Entra ID."
         buttonLabel="Create"
         onAction={handleRunCreate}
-      />
+        status={createStatus}
+      >
+        <CredentialOptions
+          mode={credentialMode}
+          onModeChange={setCredentialMode}
+          tapSettings={tapSettings}
+          onTapSettingsChange={setTapSettings}
+        />
+      </ActionCard>
     </div>
   );
 }
@@ -0,0 +1,81 @@
+/**
+ * Credential options for the Create action:
+ * generated initial password or Temporary Access Pass (lifetime and one-time use).
+ */
+
+import {
+  Checkbox,
+  Field,
+  Radio,
+  RadioGroup,
+  SpinButton,
+} from '@fluentui/react-components';
+import {
+  MAX_TAP_LIFETIME_MINUTES,
+  MIN_TAP_LIFETIME_MINUTES,
+  type CredentialMode,
+  type TemporaryAccessPassSettings,
+} from '../createUser';
+import { useAppStyles } from '../App.styles';
+
+interface CredentialOptionsProps {
+  mode: CredentialMode;
+  onModeChange: (mode: CredentialMode) => void;
+  tapSettings: TemporaryAccessPassSettings;
+  onTapSettingsChange: (settings: TemporaryAccessPassSettings) => void;
+}
+
+export function CredentialOptions({
+  mode,
+  onModeChange,
+  tapSettings,
+  onTapSettingsChange,
+}: CredentialOptionsProps) {
+  const classes = useAppStyles();
+
+  return (
+    <div className={classes.cardOptions}>
+      <Field label="Initial credential">
+        <RadioGroup
+          value={mode}
+          onChange={(_, data) => onModeChange(data.value as CredentialMode)}
+        >
+          <Radio value="password" label="Generated password" />
+          <Radio value="temporaryAccessPass" label="Temporary Access Pass (passwordless)" />
+        </RadioGroup>
+      </Field>
+      {mode === 'temporaryAccessPass' && (
+        <>
+          <Field
+            label="Pass lifetime (minutes)"
+            hint={`${MIN_TAP_LIFETIME_MINUTES}–${MAX_TAP_LIFETIME_MINUTES}, within the tenant's TAP policy`}
+          >
+            <SpinButton
+              value={tapSettings.lifetimeInMinutes}
+              min={MIN_TAP_LIFETIME_MINUTES}
+              max={MAX_TAP_LIFETIME_MINUTES}
+              step={10}
+              onChange={(_, data) => {
+                const value = data.value ?? Number(data.displayValue);
+                if (Number.isFinite(value)) {
+                  const lifetimeInMinutes = Math.min(
+                    Math.max(Math.round(value), MIN_TAP_LIFETIME_MINUTES),
+                    MAX_TAP_LIFETIME_MINUTES
+                  );
+                  onTapSettingsChange({ ...tapSettings, lifetimeInMinutes });
+                }
+              }}
+            />
+          </Field>
+          <Checkbox
+            label="One-time use"
+            checked={tapSettings.isUsableOnce}
+            onChange={(_, data) =>
+              onTapSettingsChange({ ...tapSettings, isUsableOnce: data.checked === true })
+            }
+          />
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+/**
+ * Offboard Users tab: Initialize Table, Verify, and Offboard actions.
+ */
+
+import { useState } from 'react';
+import { Checkbox } from '@fluentui/react-components';
+import { useAuth } from '@/auth/AuthContext.tsx';
+import {
+  offboardUsers,
+  formatGroupRemovalResults,
+  formatLicenseRemovalResult,
+} from '../offboardUser';
+import {
+  verifyOffboardUsers,
+  NO_INPUT_TABLE_OFFBOARD_VERIFY_RESULT,
+} from '../verifyOffboardUsers';
+import { formatThrottleStatus } from '../graphHelpers';
+import { createTokenSession, formatTokenUsage } from '../tokenSession';
+import {
+  ensureInputAndGetOffboardUsersTable,
+  applyOffboardVerifyResultToSheet,
+  hasOffboardTableData,
+} from '../excelOffboardUsersTable';
+import { clearIssues, writeIssuesSheet } from '../excelIssuesSheet';
+import { readTenantConfig } from '../excelTenantConfig';
+import { initSheetTemplate } from '../initSheetTemplate';
+import { failedVerifyResult, type VerifyUsersResult } from '../verifyCore';
+import { OFFBOARD_TABLE, TableColumnsError } from '../tableColumns';
+import { customAttributeTarget, type TenantConfig } from '../tenantConfig';
+import { attributeScopes, formatAttributeTarget } from '../userAttributes';
+import { useAppStyles } from '../App.styles';
+import { ActionCard } from './ActionCard';
+import { VerifyResultPanel } from './VerifyResultPanel';
+
+const COL = OFFBOARD_TABLE.col;
+
+const offboardTableDescription = (tenant: TenantConfig) =>
+  'This table is used to offboard leavers in Entra ID.\n' +
+  'Offboard disables the account, revokes all sign-in sessions, and writes the SN Ticket ID ' +
+  `to the ${formatAttributeTarget(customAttributeTarget(tenant, 'snTicketId'))}. ` +
+  'Group memberships and licenses can be removed as well.\n' +
+  'The following conditions apply:\n\n' +
+  '\u2022 Required fields: User Principal Name or Object ID, Leaving Date, SN Ticket ID\n' +
+  '\u2022 Leaving Date: YYYY-MM-DD; rows with a leaving date in the future are skipped\n' +
+  '\u2022 No duplicates in: User Principal Name or Object ID\n' +
+  '\u2022 Dynamic, on-premises synced, and mail-enabled groups are not removed\n' +
+  '\u2022 Only directly assigned licenses are removed; group-based licenses go with the groups\n' +
+  `\u2022 Max. ${tenant.maxRows} rows`;
+
+const OFFBOARD_COL_WIDTHS: [string, number][] = [
+  ['A:A', 250], ['B:B', 100], ['C:C', 100],
+];
+
+export function OffboardTab() {
+  const classes = useAppStyles();
+  const { getAccessToken } = useAuth();
+  const [verifyResult, setVerifyResult] = useState<VerifyUsersResult | null>(null);
+  const [offboardStatus, setOffboardStatus] = useState<string | null>(null);
+  const [removeGroups, setRemoveGroups] = useState(false);
+  const [removeLicenses, setRemoveLicenses] = useState(false);
+  const [writeIssues, setWriteIssues] = useState(false);
+
+  const handleRunInit = async () => {
+    try {
+      await Excel.run(async (context) => {
+        const tenant = await readTenantConfig(context);
+        await initSheetTemplate(context, {
+          sheetName: 'Offboard',
+          tableName: 'OffboardUsers',
+          title: 'Offboard',
+          description: offboardTableDescription(tenant),
+          headers: OFFBOARD_TABLE.headers,
+          lastColumnLetter: 'C',
+          columnWidths: OFFBOARD_COL_WIDTHS,
+          descriptionRowHeight: 330,
+        });
+      });
+    } catch (err) {
+      console.error('Init Offboard Template failed:', err);
+    }
+  };
+
+  const handleRunVerify = async () => {
+    try {
+      const result = await Excel.run(async (context) => {
+        const tableData = await ensureInputAndGetOffboardUsersTable(context);
+        if (!hasOffboardTableData(tableData)) {
+          return NO_INPUT_TABLE_OFFBOARD_VERIFY_RESULT;
+        }
+        const { rows, dataBodyRange, columns } = tableData;
+        const tenant = await readTenantConfig(context);
+        const verifyResult = verifyOffboardUsers(rows, tenant);
+        await applyOffboardVerifyResultToSheet(context, dataBodyRange, columns, verifyResult);
+        if (writeIssues) {
+          await writeIssuesSheet(context, dataBodyRange, columns, COL.user, verifyResult);
+        } else if (verifyResult.success) {
+          await clearIssues(context, dataBodyRange);
+        }
+        return verifyResult;
+      });
+
+      setVerifyResult(result);
+    } catch (err) {
+      setVerifyResult(failedVerifyResult(err));
+    }
+  };
+
+  const handleRunOffboard = async () => {
+    try {
+      const tenant = await Excel.run(readTenantConfig);
+      const scopes = [
+        'User.ReadWrite.All',
+        ...attributeScopes(tenant, 'write', ['snTicketId']),
+        ...(removeGroups ? ['GroupMember.ReadWrite.All'] : []),
+        ...(removeLicenses ? ['Organization.Read.All'] : []),
+      ];
+      const session = createTokenSession((forceRefresh) =>
+        getAccessToken(scopes, forceRefresh)
+      );
+      // Acquire the first token up front so sign-in problems surface before any sheet changes.
+      await session.getToken();
+      const runResult = await Excel.run(async (context) => {
+        const tableData = await ensureInputAndGetOffboardUsersTable(context);
+        if (!hasOffboardTableData(tableData)) {
+          return { verifyResult: NO_INPUT_TABLE_OFFBOARD_VERIFY_RESULT, offboarded: false };
+        }
+        const { rows, dataBodyRange, columns } = tableData;
+        const verifyResultData = verifyOffboardUsers(rows, tenant);
+        await applyOffboardVerifyResultToSheet(context, dataBodyRange, columns, verifyResultData);
+        if (verifyResultData.success) await clearIssues(context, dataBodyRange);
+
+        if (!verifyResultData.success || verifyResultData.noInputTable) {
+          return { verifyResult: verifyResultData, offboarded: false };
+        }
+
+        const worksheets = context.workbook.worksheets;
+        const sheetName =
+          'Offboard_' +
+          new Date()
+            .toISOString()
+            .slice(0, 19)
+            .replace('T', '_')
+            .replace(/:/g, '-');
+        const newSheet = worksheets.add(sheetName);
+        newSheet.activate();
+
+        const LOG_HEADERS = [
+          'Timestamp',
+          'User',
+          'User Principal Name',
+          'Object ID',
+          'Leaving Date',
+          'SN Ticket ID',
+          'Status',
+          'Error',
+          'Groups',
+          'Licenses',
+          'Retries',
+          'Token',
+        ] as const;
+
+        const headerRange = newSheet.getRange('A1:L1');
+        headerRange.values = [LOG_HEADERS as unknown as string[]];
+        const logTable = newSheet.tables.add('A1:L1', true);
+
+        newSheet.getRange('A:A').format.columnWidth = 170;
+        newSheet.getRange('B:C').format.columnWidth = 210;
+        newSheet.getRange('D:D').format.columnWidth = 210;
+        newSheet.getRange('E:F').format.columnWidth = 100;
+        newSheet.getRange('G:G').format.columnWidth = 100;
+        newSheet.getRange('H:J').format.columnWidth = 300;
+        newSheet.getRange('K:K').format.columnWidth = 70;
+        newSheet.getRange('L:L').format.columnWidth = 170;
+
+        const results = await offboardUsers(rows, session, {
+          removeGroups,
+          removeLicenses,
+          tenant,
+          onThrottle: (waitMs, attempt) =>
+            setOffboardStatus(formatThrottleStatus(waitMs, attempt)),
+        });
+        const timestamp = new Date().toISOString();
+        const logRows: (string | number)[][] = rows.map((row, i) => {
+          const user = String(row[COL.user] ?? '').trim();
+          const snTicketId = String(row[COL.snTicketId] ?? '').trim();
+          const result = results[i]!;
+          return [
+            timestamp,
+            user,
+            result.userPrincipalName ?? '',
+            result.objectId ?? '',
+            result.leavingDate ?? '',
+            snTicketId,
+            result.status,
+            result.error ?? '',
+            formatGroupRemovalResults(result.groupResults),
+            formatLicenseRemovalResult(result.licenseResult),
+            result.retries,
+            formatTokenUsage(result.token),
+          ];
+        });
+
+        if (logRows.length > 0) {
+          logTable.rows.add(undefined, logRows);
+        }
+
+        await context.sync();
+        return { verifyResult: verifyResultData, offboarded: true };
+      });
+
+      setVerifyResult(runResult.verifyResult);
+    } catch (err) {
+      console.error('Offboard failed:', err);
+      if (err instanceof TableColumnsError) setVerifyResult(failedVerifyResult(err));
+    } finally {
+      setOffboardStatus(null);
+    }
+  };
+
+  return (
+    <div className={classes.panel} key="offboard">
+      <ActionCard
+        title="Initialize Table"
+        description="Initializes the Offboard table for the leavers."
+        buttonLabel="Initialize"
+        onAction={handleRunInit}
+      />
+      <ActionCard
+        title="Verify Data"
+        description="Verifies the data in the Offboard table."
+        buttonLabel="Verify"
+        onAction={handleRunVerify}
+      >
+        <div className={classes.cardOptions}>
+          <Checkbox
+            label="Write the issues to the Issues sheet"
+            checked={writeIssues}
+            onChange={(_, data) => setWriteIssues(data.checked === true)}
+          />
+        </div>
+        <VerifyResultPanel result={verifyResult} noDataLabel="No Offboard Data" />
+      </ActionCard>
+      <ActionCard
+        title="Offboard"
+        description="Disables the accounts and revokes their sign-in sessions in Entra ID."
+        buttonLabel="Offboard"
+        onAction={handleRunOffboard}
+        status={offboardStatus}
+      >
+        <div className={classes.cardOptions}>
+          <Checkbox
+            label="Remove group memberships"
+            checked={removeGroups}
+            onChange={(_, data) => setRemoveGroups(data.checked === true)}
+          />
+          <Checkbox
+            label="Remove licenses"
+            checked={removeLicenses}
+            onChange={(_, data) => setRemoveLicenses(data.checked === true)}
+          />
+        </div>
+      </ActionCard>
+    </div>
+  );
+}
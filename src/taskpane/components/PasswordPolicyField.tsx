@@ -0,0 +1,61 @@
+/**
+ * Password policy for the Settings tab: length, minimum count per character class and the
+ * excluded characters of the passwords generated by Create and Reset Password.
+ */
+
+import { Field, Input, SpinButton } from '@fluentui/react-components';
+import { MAX_PASSWORD_LENGTH, MIN_PASSWORD_LENGTH, type PasswordPolicy } from '../passwordGenerator';
+
+interface PasswordPolicyFieldProps {
+  policy: PasswordPolicy;
+  onChange: (policy: PasswordPolicy) => void;
+}
+
+/** Reads a SpinButton change as a whole number; null while the input is not a number. */
+function spinValue(value: number | null | undefined, displayValue: string | undefined) {
+  const n = value ?? Number(displayValue);
+  return Number.isFinite(n) ? Math.round(n) : null;
+}
+
+export function PasswordPolicyField({ policy, onChange }: PasswordPolicyFieldProps) {
+  return (
+    <>
+      <Field label="Password length" hint={`${MIN_PASSWORD_LENGTH}–${MAX_PASSWORD_LENGTH}`}>
+        <SpinButton
+          value={policy.length}
+          min={MIN_PASSWORD_LENGTH}
+          max={MAX_PASSWORD_LENGTH}
+          onChange={(_, data) => {
+            const length = spinValue(data.value, data.displayValue);
+            if (length !== null) onChange({ ...policy, length });
+          }}
+        />
+      </Field>
+      {policy.classes.map((cls, i) => (
+        <Field key={cls.name} label={`Min. ${cls.name} characters`} hint={cls.characters}>
+          <SpinButton
+            value={cls.minCount}
+            min={0}
+            max={policy.length}
+            onChange={(_, data) => {
+              const minCount = spinValue(data.value, data.displayValue);
+              if (minCount === null) return;
+              onChange({
+                ...policy,
+                classes: policy.classes.map((c, j) => (j === i ? { ...c, minCount } : c)),
+              });
+            }}
+          />
+        </Field>
+      ))}
+      <Field label="Excluded characters" hint="Never used, e.g. look-alikes such as I, l, 1, O, 0">
+        <Input
+          value={policy.excludedCharacters}
+          onChange={(_, data) =>
+            onChange({ ...policy, excludedCharacters: data.value.replace(/\s/g, '') })
+          }
+        />
+      </Field>
+    </>
+  );
+}
@@ -0,0 +1,58 @@
+/**
+ * Summary of the pending changes on the Update sheet (rows and attributes that Update will send).
+ */
+
+import {
+  Body1,
+  Table,
+  TableBody,
+  TableCell,
+  TableRow,
+} from '@fluentui/react-components';
+import type { PendingChanges } from '../updateUser';
+import { useAppStyles } from '../App.styles';
+
+interface PendingChangesPanelProps {
+  pending: PendingChanges | null;
+}
+
+export function PendingChangesPanel({ pending }: PendingChangesPanelProps) {
+  const classes = useAppStyles();
+
+  if (pending === null) {
+    return (
+      <div className={classes.verifyResult} aria-live="polite">
+        <Body1 className={classes.verifyMessage}>
+          Run Verify to see the pending changes.
+        </Body1>
+      </div>
+    );
+  }
+
+  return (
+    <div className={classes.verifyResult} aria-live="polite">
+      <Table className={classes.verifyTable} size="small" aria-label="Pending changes">
+        <TableBody>
+          <TableRow>
+            <TableCell>Rows changed</TableCell>
+            <TableCell>{pending.changedRows}</TableCell>
+          </TableRow>
+          <TableRow>
+            <TableCell>Attributes changed</TableCell>
+            <TableCell>{pending.changedAttributes}</TableCell>
+          </TableRow>
+          <TableRow>
+            <TableCell>Rows without changes (skipped)</TableCell>
+            <TableCell>{pending.unchangedRows}</TableCell>
+          </TableRow>
+          {pending.notLoadedRows > 0 && (
+            <TableRow className={classes.verifyTableRowErrors}>
+              <TableCell>Rows not loaded</TableCell>
+              <TableCell>{pending.notLoadedRows}</TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
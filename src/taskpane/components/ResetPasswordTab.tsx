@@ -0,0 +1,237 @@
+/**
+ * Reset Password tab: Initialize Table, Verify, and Reset actions.
+ */
+
+import { useState } from 'react';
+import { Checkbox } from '@fluentui/react-components';
+import { useAuth } from '@/auth/AuthContext.tsx';
+import { resetPasswords } from '../resetPassword';
+import {
+  verifyResetPasswordUsers,
+  NO_INPUT_TABLE_RESET_PASSWORD_VERIFY_RESULT,
+} from '../verifyResetPasswordUsers';
+import { formatThrottleStatus } from '../graphHelpers';
+import { createTokenSession, formatTokenUsage } from '../tokenSession';
+import { describePasswordPolicy } from '../passwordGenerator';
+import {
+  ensureInputAndGetResetPasswordUsersTable,
+  applyResetPasswordVerifyResultToSheet,
+  hasResetPasswordTableData,
+} from '../excelResetPasswordUsersTable';
+import { clearIssues, writeIssuesSheet } from '../excelIssuesSheet';
+import { readTenantConfig } from '../excelTenantConfig';
+import { initSheetTemplate } from '../initSheetTemplate';
+import { failedVerifyResult, type VerifyUsersResult } from '../verifyCore';
+import { RESET_PASSWORD_TABLE, TableColumnsError } from '../tableColumns';
+import type { TenantConfig } from '../tenantConfig';
+import { useAppStyles } from '../App.styles';
+import { ActionCard } from './ActionCard';
+import { VerifyResultPanel } from './VerifyResultPanel';
+
+const COL = RESET_PASSWORD_TABLE.col;
+
+const resetTableDescription = (tenant: TenantConfig) =>
+  'This table is used to reset the passwords of existing users.\n' +
+  'Each user gets a new generated password and must change it at the next sign-in.\n' +
+  'The passwords are written to the log sheet. The following conditions apply:\n\n' +
+  '\u2022 Required fields: User Principal Name\n' +
+  '\u2022 No duplicates in: User Principal Name\n' +
+  '\u2022 Passwords of administrators can only be reset with a matching admin role\n' +
+  `\u2022 Max. ${tenant.maxRows} rows`;
+
+const RESET_COL_WIDTHS: [string, number][] = [['A:A', 300]];
+
+export function ResetPasswordTab() {
+  const classes = useAppStyles();
+  const { getAccessToken } = useAuth();
+  const [verifyResult, setVerifyResult] = useState<VerifyUsersResult | null>(null);
+  const [resetStatus, setResetStatus] = useState<string | null>(null);
+  const [revokeSessions, setRevokeSessions] = useState(false);
+  const [writeIssues, setWriteIssues] = useState(false);
+
+  const handleRunInit = async () => {
+    try {
+      await Excel.run(async (context) => {
+        const tenant = await readTenantConfig(context);
+        await initSheetTemplate(context, {
+          sheetName: 'Reset Password',
+          tableName: 'ResetPasswordUsers',
+          title: 'Reset Password',
+          description: resetTableDescription(tenant),
+          headers: RESET_PASSWORD_TABLE.headers,
+          lastColumnLetter: 'A',
+          columnWidths: RESET_COL_WIDTHS,
+          descriptionRowHeight: 300,
+        });
+      });
+    } catch (err) {
+      console.error('Init Reset Password Template failed:', err);
+    }
+  };
+
+  const handleRunVerify = async () => {
+    try {
+      const result = await Excel.run(async (context) => {
+        const tableData = await ensureInputAndGetResetPasswordUsersTable(context);
+        if (!hasResetPasswordTableData(tableData)) {
+          return NO_INPUT_TABLE_RESET_PASSWORD_VERIFY_RESULT;
+        }
+        const { rows, dataBodyRange, columns } = tableData;
+        const tenant = await readTenantConfig(context);
+        const verifyResult = verifyResetPasswordUsers(rows, tenant);
+        await applyResetPasswordVerifyResultToSheet(context, dataBodyRange, columns, verifyResult);
+        if (writeIssues) {
+          await writeIssuesSheet(context, dataBodyRange, columns, COL.userPrincipalName, verifyResult);
+        } else if (verifyResult.success) {
+          await clearIssues(context, dataBodyRange);
+        }
+        return verifyResult;
+      });
+
+      setVerifyResult(result);
+    } catch (err) {
+      setVerifyResult(failedVerifyResult(err));
+    }
+  };
+
+  const handleRunReset = async () => {
+    try {
+      const session = createTokenSession((forceRefresh) =>
+        getAccessToken(['User.ReadWrite.All'], forceRefresh)
+      );
+      // Acquire the first token up front so sign-in problems surface before any sheet changes.
+      await session.getToken();
+      const runResult = await Excel.run(async (context) => {
+        const tableData = await ensureInputAndGetResetPasswordUsersTable(context);
+        if (!hasResetPasswordTableData(tableData)) {
+          return { verifyResult: NO_INPUT_TABLE_RESET_PASSWORD_VERIFY_RESULT, reset: false };
+        }
+        const { rows, dataBodyRange, columns } = tableData;
+        const tenant = await readTenantConfig(context);
+        const verifyResultData = verifyResetPasswordUsers(rows, tenant);
+        await applyResetPasswordVerifyResultToSheet(context, dataBodyRange, columns, verifyResultData);
+        if (verifyResultData.success) await clearIssues(context, dataBodyRange);
+
+        if (!verifyResultData.success || verifyResultData.noInputTable) {
+          return { verifyResult: verifyResultData, reset: false };
+        }
+
+        const worksheets = context.workbook.worksheets;
+        const sheetName =
+          'Reset_' +
+          new Date()
+            .toISOString()
+            .slice(0, 19)
+            .replace('T', '_')
+            .replace(/:/g, '-');
+        const newSheet = worksheets.add(sheetName);
+        newSheet.activate();
+
+        const LOG_HEADERS = [
+          'Timestamp',
+          'User Principal Name',
+          'New Password',
+          'Password Policy',
+          'Sessions Revoked',
+          'Status',
+          'Error',
+          'Retries',
+          'Token',
+        ] as const;
+
+        const headerRange = newSheet.getRange('A1:I1');
+        headerRange.values = [LOG_HEADERS as unknown as string[]];
+        const logTable = newSheet.tables.add('A1:I1', true);
+
+        newSheet.getRange('A:A').format.columnWidth = 170;
+        newSheet.getRange('B:B').format.columnWidth = 210;
+        newSheet.getRange('C:C').format.columnWidth = 170;
+        newSheet.getRange('D:D').format.columnWidth = 260;
+        newSheet.getRange('E:F').format.columnWidth = 100;
+        newSheet.getRange('G:G').format.columnWidth = 300;
+        newSheet.getRange('H:H').format.columnWidth = 70;
+        newSheet.getRange('I:I').format.columnWidth = 170;
+
+        const passwordPolicy = tenant.passwordPolicy;
+        const passwordPolicyDescription = describePasswordPolicy(passwordPolicy);
+        const results = await resetPasswords(rows, session, {
+          passwordPolicy,
+          revokeSessions,
+          onThrottle: (waitMs, attempt) =>
+            setResetStatus(formatThrottleStatus(waitMs, attempt)),
+        });
+        const timestamp = new Date().toISOString();
+        const logRows: (string | number)[][] = rows.map((row, i) => {
+          const upn = String(row[COL.userPrincipalName] ?? '').trim();
+          const result = results[i]!;
+          return [
+            timestamp,
+            upn,
+            result.password ?? '',
+            result.password ? passwordPolicyDescription : '',
+            result.sessionsRevoked === null ? '' : result.sessionsRevoked ? 'yes' : 'no',
+            result.status,
+            result.error ?? '',
+            result.retries,
+            formatTokenUsage(result.token),
+          ];
+        });
+
+        if (logRows.length > 0) {
+          logTable.rows.add(undefined, logRows);
+        }
+
+        await context.sync();
+        return { verifyResult: verifyResultData, reset: true };
+      });
+
+      setVerifyResult(runResult.verifyResult);
+    } catch (err) {
+      console.error('Reset Password failed:', err);
+      if (err instanceof TableColumnsError) setVerifyResult(failedVerifyResult(err));
+    } finally {
+      setResetStatus(null);
+    }
+  };
+
+  return (
+    <div className={classes.panel} key="reset">
+      <ActionCard
+        title="Initialize Table"
+        description="Initializes the Reset Password table for the users."
+        buttonLabel="Initialize"
+        onAction={handleRunInit}
+      />
+      <ActionCard
+        title="Verify Data"
+        description="Verifies the data in the Reset Password table."
+        buttonLabel="Verify"
+        onAction={handleRunVerify}
+      >
+        <div className={classes.cardOptions}>
+          <Checkbox
+            label="Write the issues to the Issues sheet"
+            checked={writeIssues}
+            onChange={(_, data) => setWriteIssues(data.checked === true)}
+          />
+        </div>
+        <VerifyResultPanel result={verifyResult} noDataLabel="No Reset Password Data" />
+      </ActionCard>
+      <ActionCard
+        title="Reset Password"
+        description="Sets new generated passwords that must be changed at the next sign-in."
+        buttonLabel="Reset"
+        onAction={handleRunReset}
+        status={resetStatus}
+      >
+        <div className={classes.cardOptions}>
+          <Checkbox
+            label="Revoke sign-in sessions"
+            checked={revokeSessions}
+            onChange={(_, data) => setRevokeSessions(data.checked === true)}
+          />
+        </div>
+      </ActionCard>
+    </div>
+  );
+}
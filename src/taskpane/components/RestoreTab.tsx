@@ -0,0 +1,217 @@
+/**
+ * Restore Users tab: List deleted users (with filters) and Restore the selected rows.
+ */
+
+import { useState } from 'react';
+import { Field, Input } from '@fluentui/react-components';
+import { useAuth } from '@/auth/AuthContext.tsx';
+import { loadDeletedUsers, restoreDeletedUsers } from '../restoreUser';
+import { formatThrottleStatus } from '../graphHelpers';
+import { createTokenSession, formatTokenUsage } from '../tokenSession';
+import {
+  ensureInputAndGetRestoreUsersTable,
+  getSelectedRowIndices,
+  hasRestoreTableData,
+  writeRestoreUsersRows,
+} from '../excelRestoreUsersTable';
+import { initSheetTemplate } from '../initSheetTemplate';
+import { RESTORE_TABLE } from '../tableColumns';
+import { useAppStyles } from '../App.styles';
+import { ActionCard } from './ActionCard';
+
+const COL = RESTORE_TABLE.col;
+
+const RESTORE_TABLE_DESCRIPTION =
+  'This table lists soft-deleted users from the Entra ID recycle bin.\n' +
+  'Select the rows to restore (multiple selections are possible) and run Restore.\n\n' +
+  '\u2022 Deleted users are kept for 30 days, then removed permanently\n' +
+  '\u2022 The User Principal Name is shown as stored in the recycle bin (prefixed with the Object ID)\n' +
+  '\u2022 Restore fails when the original UPN or mail address is used by another user';
+
+const RESTORE_COL_WIDTHS: [string, number][] = [
+  ['A:A', 210], ['B:B', 300], ['C:C', 170], ['D:D', 200], ['E:E', 170],
+];
+
+export function RestoreTab() {
+  const classes = useAppStyles();
+  const { getAccessToken } = useAuth();
+  const [deletedSince, setDeletedSince] = useState('');
+  const [upnContains, setUpnContains] = useState('');
+  const [listStatus, setListStatus] = useState<string | null>(null);
+  const [restoreStatus, setRestoreStatus] = useState<string | null>(null);
+
+  const handleRunList = async () => {
+    let message: string | null = null;
+    try {
+      const session = createTokenSession((forceRefresh) =>
+        getAccessToken(['User.Read.All'], forceRefresh)
+      );
+      const users = await loadDeletedUsers(
+        session,
+        { deletedSince: deletedSince || undefined, upnContains },
+        {
+          onThrottle: (waitMs, attempt) =>
+            setListStatus(formatThrottleStatus(waitMs, attempt)),
+        }
+      );
+      await Excel.run(async (context) => {
+        await initSheetTemplate(context, {
+          sheetName: 'Restore',
+          tableName: 'RestoreUsers',
+          title: 'Restore',
+          description: RESTORE_TABLE_DESCRIPTION,
+          headers: RESTORE_TABLE.headers,
+          lastColumnLetter: 'E',
+          columnWidths: RESTORE_COL_WIDTHS,
+          descriptionRowHeight: 130,
+        });
+        await writeRestoreUsersRows(
+          context,
+          users.map((user) => [
+            user.objectId,
+            user.userPrincipalName,
+            user.displayName,
+            user.mail,
+            user.deletedDateTime,
+          ])
+        );
+      });
+      if (users.length === 0) {
+        message = 'No deleted users match the filters.';
+      }
+    } catch (err) {
+      console.error('List deleted users failed:', err);
+    } finally {
+      setListStatus(message);
+    }
+  };
+
+  const handleRunRestore = async () => {
+    let message: string | null = null;
+    try {
+      const session = createTokenSession((forceRefresh) =>
+        getAccessToken(['User.ReadWrite.All'], forceRefresh)
+      );
+      // Acquire the first token up front so sign-in problems surface before any sheet changes.
+      await session.getToken();
+      await Excel.run(async (context) => {
+        const tableData = await ensureInputAndGetRestoreUsersTable(context);
+        if (!hasRestoreTableData(tableData)) {
+          message = 'List the deleted users first.';
+          return;
+        }
+        const { rows, dataBodyRange } = tableData;
+        const selected = (await getSelectedRowIndices(context, dataBodyRange)).filter(
+          (i) => String(rows[i]?.[COL.objectId] ?? '').trim() !== ''
+        );
+        if (selected.length === 0) {
+          message = 'Select the rows to restore in the Restore table.';
+          return;
+        }
+
+        const worksheets = context.workbook.worksheets;
+        const sheetName =
+          'Restore_' +
+          new Date()
+            .toISOString()
+            .slice(0, 19)
+            .replace('T', '_')
+            .replace(/:/g, '-');
+        const newSheet = worksheets.add(sheetName);
+        newSheet.activate();
+
+        const LOG_HEADERS = [
+          'Timestamp',
+          'Object ID',
+          'Deleted User Principal Name',
+          'Display Name',
+          'Deleted',
+          'Restored User Principal Name',
+          'Status',
+          'Error',
+          'Retries',
+          'Token',
+        ] as const;
+
+        const headerRange = newSheet.getRange('A1:J1');
+        headerRange.values = [LOG_HEADERS as unknown as string[]];
+        const logTable = newSheet.tables.add('A1:J1', true);
+
+        newSheet.getRange('A:A').format.columnWidth = 170;
+        newSheet.getRange('B:B').format.columnWidth = 210;
+        newSheet.getRange('C:C').format.columnWidth = 300;
+        newSheet.getRange('D:E').format.columnWidth = 170;
+        newSheet.getRange('F:F').format.columnWidth = 210;
+        newSheet.getRange('G:G').format.columnWidth = 100;
+        newSheet.getRange('H:H').format.columnWidth = 300;
+        newSheet.getRange('I:I').format.columnWidth = 70;
+        newSheet.getRange('J:J').format.columnWidth = 170;
+
+        const selectedRows = selected.map((i) => rows[i]!);
+        const results = await restoreDeletedUsers(
+          selectedRows.map((row) => String(row[COL.objectId] ?? '').trim()),
+          session,
+          {
+            onThrottle: (waitMs, attempt) =>
+              setRestoreStatus(formatThrottleStatus(waitMs, attempt)),
+          }
+        );
+        const timestamp = new Date().toISOString();
+        const logRows: (string | number)[][] = selectedRows.map((row, i) => {
+          const result = results[i]!;
+          return [
+            timestamp,
+            String(row[COL.objectId] ?? '').trim(),
+            String(row[COL.userPrincipalName] ?? '').trim(),
+            String(row[COL.displayName] ?? '').trim(),
+            String(row[COL.deletedDateTime] ?? '').trim(),
+            result.userPrincipalName ?? '',
+            result.status,
+            result.error ?? '',
+            result.retries,
+            formatTokenUsage(result.token),
+          ];
+        });
+
+        logTable.rows.add(undefined, logRows);
+        await context.sync();
+      });
+    } catch (err) {
+      console.error('Restore failed:', err);
+    } finally {
+      setRestoreStatus(message);
+    }
+  };
+
+  return (
+    <div className={classes.panel} key="restore">
+      <ActionCard
+        title="List Deleted Users"
+        description="Lists soft-deleted users from the recycle bin into the Restore table."
+        buttonLabel="List"
+        onAction={handleRunList}
+        status={listStatus}
+      >
+        <div className={classes.cardOptions}>
+          <Field label="Deleted on or after">
+            <Input
+              type="date"
+              value={deletedSince}
+              onChange={(_, data) => setDeletedSince(data.value)}
+            />
+          </Field>
+          <Field label="User Principal Name contains">
+            <Input value={upnContains} onChange={(_, data) => setUpnContains(data.value)} />
+          </Field>
+        </div>
+      </ActionCard>
+      <ActionCard
+        title="Restore"
+        description="Restores the selected rows of the Restore table in Entra ID."
+        buttonLabel="Restore"
+        onAction={handleRunRestore}
+        status={restoreStatus}
+      />
+    </div>
+  );
+}
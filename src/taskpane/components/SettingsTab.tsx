@@ -0,0 +1,176 @@
+/**
+ * Settings tab: Edit the tenant profile stored in the workbook (domains, max. rows, targets of the
+ * custom columns, required fields, password policy). Save validates the profile against the
+ * tenant's verified domains.
+ */
+
+import { useEffect, useState } from 'react';
+import { Checkbox, Field, Input, SpinButton } from '@fluentui/react-components';
+import { useAuth } from '@/auth/AuthContext.tsx';
+import { formatThrottleStatus } from '../graphHelpers';
+import { createTokenSession } from '../tokenSession';
+import { clearTenantConfig, readTenantConfig, writeTenantConfig } from '../excelTenantConfig';
+import {
+  checkTenantDomains,
+  CONFIGURABLE_REQUIRED_KEYS,
+  CUSTOM_ATTRIBUTE_KEYS,
+  customAttributeTarget,
+  DEFAULT_TENANT_CONFIG,
+  MAX_ROWS_LIMIT,
+  parseDomainList,
+  validateTenantConfig,
+  type TenantConfig,
+} from '../tenantConfig';
+import { USER_ATTRIBUTES } from '../userAttributes';
+import { useAppStyles } from '../App.styles';
+import { ActionCard } from './ActionCard';
+import { AttributeTargetField } from './AttributeTargetField';
+import { PasswordPolicyField } from './PasswordPolicyField';
+
+export function SettingsTab() {
+  const classes = useAppStyles();
+  const { getAccessToken } = useAuth();
+  const [config, setConfig] = useState<TenantConfig>(DEFAULT_TENANT_CONFIG);
+  const [upnDomains, setUpnDomains] = useState(DEFAULT_TENANT_CONFIG.upnDomains.join('; '));
+  const [mailDomains, setMailDomains] = useState(DEFAULT_TENANT_CONFIG.mailDomains.join('; '));
+  const [saveStatus, setSaveStatus] = useState<string | null>(null);
+  const [resetStatus, setResetStatus] = useState<string | null>(null);
+
+  const showConfig = (loaded: TenantConfig) => {
+    setConfig(loaded);
+    setUpnDomains(loaded.upnDomains.join('; '));
+    setMailDomains(loaded.mailDomains.join('; '));
+  };
+
+  useEffect(() => {
+    Excel.run(readTenantConfig)
+      .then(showConfig)
+      .catch((err) => console.error('Load settings failed:', err));
+  }, []);
+
+  const handleRunSave = async () => {
+    let message: string | null = null;
+    try {
+      const next: TenantConfig = {
+        ...config,
+        upnDomains: parseDomainList(upnDomains),
+        mailDomains: parseDomainList(mailDomains),
+      };
+      const problems = validateTenantConfig(next);
+      if (problems.length === 0) {
+        const session = createTokenSession((forceRefresh) =>
+          getAccessToken(['Domain.Read.All'], forceRefresh)
+        );
+        problems.push(
+          ...(await checkTenantDomains(next, session, {
+            onThrottle: (waitMs, attempt) =>
+              setSaveStatus(formatThrottleStatus(waitMs, attempt)),
+          }))
+        );
+      }
+      if (problems.length > 0) {
+        message = `Not saved: ${problems.join('; ')}`;
+        return;
+      }
+      await Excel.run((context) => writeTenantConfig(context, next));
+      showConfig(next);
+      message = 'Settings saved to this workbook.';
+    } catch (err) {
+      console.error('Save settings failed:', err);
+      message = `Not saved: ${err instanceof Error ? err.message : String(err)}`;
+    } finally {
+      setSaveStatus(message);
+    }
+  };
+
+  const handleRunReset = async () => {
+    let message: string | null = null;
+    try {
+      await Excel.run(clearTenantConfig);
+      showConfig(DEFAULT_TENANT_CONFIG);
+      message = 'Default settings restored.';
+    } catch (err) {
+      console.error('Restore default settings failed:', err);
+    } finally {
+      setResetStatus(message);
+    }
+  };
+
+  const toggleRequired = (key: TenantConfig['requiredFields'][number], checked: boolean) =>
+    setConfig({
+      ...config,
+      requiredFields: CONFIGURABLE_REQUIRED_KEYS.filter((k) =>
+        k === key ? checked : config.requiredFields.includes(k)
+      ),
+    });
+
+  return (
+    <div className={classes.panel} key="settings">
+      <ActionCard
+        title="Tenant Settings"
+        description="Settings of this workbook. Re-initialize the tables after a change to update their descriptions."
+        buttonLabel="Save"
+        onAction={handleRunSave}
+        status={saveStatus}
+      >
+        <div className={classes.cardOptions}>
+          <Field label="User Principal Name domains" hint='Separated by ";"'>
+            <Input value={upnDomains} onChange={(_, data) => setUpnDomains(data.value)} />
+          </Field>
+          <Field label="Mail domains" hint='Separated by ";"'>
+            <Input value={mailDomains} onChange={(_, data) => setMailDomains(data.value)} />
+          </Field>
+          <Field label="Max. rows" hint={`1–${MAX_ROWS_LIMIT}`}>
+            <SpinButton
+              value={config.maxRows}
+              min={1}
+              max={MAX_ROWS_LIMIT}
+              step={10}
+              onChange={(_, data) => {
+                const value = data.value ?? Number(data.displayValue);
+                if (Number.isFinite(value)) {
+                  setConfig({ ...config, maxRows: Math.round(value) });
+                }
+              }}
+            />
+          </Field>
+          {CUSTOM_ATTRIBUTE_KEYS.map((key) => (
+            <AttributeTargetField
+              key={key}
+              label={USER_ATTRIBUTES[key].header}
+              target={customAttributeTarget(config, key)}
+              defaultName={key}
+              onChange={(target) =>
+                setConfig({
+                  ...config,
+                  attributeTargets: { ...config.attributeTargets, [key]: target },
+                })
+              }
+            />
+          ))}
+          <Field label="Required fields">
+            {CONFIGURABLE_REQUIRED_KEYS.map((key) => (
+              <Checkbox
+                key={key}
+                label={USER_ATTRIBUTES[key].header}
+                checked={config.requiredFields.includes(key)}
+                onChange={(_, data) => toggleRequired(key, data.checked === true)}
+              />
+            ))}
+          </Field>
+          <PasswordPolicyField
+            policy={config.passwordPolicy}
+            onChange={(passwordPolicy) => setConfig({ ...config, passwordPolicy })}
+          />
+        </div>
+      </ActionCard>
+      <ActionCard
+        title="Restore Defaults"
+        description="Removes the settings from this workbook and uses the default settings."
+        buttonLabel="Restore"
+        onAction={handleRunReset}
+        status={resetStatus}
+      />
+    </div>
+  );
+}
@@ -1,91 +1,120 @@
 /**
- * Update Users tab: Initialize Table, Load Data, Verify, and Update actions.
+ * Update Users tab: Initialize Table, Load Data, Verify, Preview, Update, and Undo Update Run actions.
  */
 
 import { useState } from 'react';
+import { Checkbox, Dropdown, Field, Option } from '@fluentui/react-components';
 import { useAuth } from '@/auth/AuthContext.tsx';
-import { loadUserByUpn } from '../loadUsers';
+import { loadUsersByUpn } from '../loadUsers';
 import {
   verifyUpdateUsers,
+  runUpdateOnlineChecks,
   NO_INPUT_TABLE_UPDATE_VERIFY_RESULT,
 } from '../verifyUpdateUsers';
-import { updateUser } from '../updateUser';
+import {
+  getPendingChanges,
+  previewUpdateUsers,
+  updateUsers,
+  type PendingChanges,
+} from '../updateUser';
+import { undoUpdateRun } from '../undoUpdate';
+import { formatManagerAssignmentResult } from '../managerAssignment';
+import {
+  applyChangesToSnapshotEntry,
+  createSnapshotEntry,
+  formatAttributeChanges,
+  formatAttributeConflicts,
+  getSnapshotEntry,
+  serializeAttributeChanges,
+  setSnapshotEntry,
+  type UpdateSnapshot,
+} from '../updateSnapshot';
+import { readUpdateSnapshot, writeUpdateSnapshot } from '../excelUpdateSnapshot';
+import { readTenantConfig } from '../excelTenantConfig';
+import {
+  listUpdateLogSheets,
+  readUpdateLogEntries,
+  UPDATE_LOG_CHANGES_JSON_HEADER,
+} from '../excelUpdateLog';
+import { formatThrottleStatus } from '../graphHelpers';
+import { createTokenSession, formatTokenUsage } from '../tokenSession';
 import {
   ensureInputAndGetUpdateUsersTable,
   applyUpdateVerifyResultToSheet,
+  applyPendingChangesToSheet,
   hasUpdateTableData,
   writeLoadedDataToTable,
   markLoadErrorOnRow,
+  clearCellHighlights,
 } from '../excelUpdateUsersTable';
+import { clearIssues, writeIssuesSheet } from '../excelIssuesSheet';
 import { initSheetTemplate } from '../initSheetTemplate';
-import type { VerifyUsersResult } from '../verifyCore';
+import { writeRequestPreviewSheet } from '../excelRequestPreview';
+import { failedVerifyResult, formatDomainList, type VerifyUsersResult } from '../verifyCore';
+import { presentKeys, TableColumnsError } from '../tableColumns';
+import {
+  attributeScopes,
+  requiredHeaders,
+  templateColumnWidths,
+  templateLastColumnLetter,
+  uniqueHeaders,
+  UPDATE_TABLE,
+} from '../userAttributes';
+import type { TenantConfig } from '../tenantConfig';
 import { useAppStyles } from '../App.styles';
 import { ActionCard } from './ActionCard';
 import { VerifyResultPanel } from './VerifyResultPanel';
+import { PendingChangesPanel } from './PendingChangesPanel';
 
-const USERS_TABLE_HEADERS = [
-  'User Principal Name',
-  'Mail',
-  'BMS ID',
-  'Local HR ID',
-  'SN Ticket ID',
-  'First Name',
-  'Last Name',
-  'Display Name',
-  'Country',
-  'City',
-  'Job Title',
-  'Office Location',
-  'Street Address',
-  'State',
-  'Postal Code',
-  'Business Phone',
-  'Mobile Phone',
-  'Company Name',
-  'Department',
-] as const;
-
-const UPDATE_TABLE_HEADERS = ['Object ID', ...USERS_TABLE_HEADERS] as const;
-
-const UPDATE_TABLE_DESCRIPTION =
+const COL = UPDATE_TABLE.col;
+
+const updateTableDescription = (tenant: TenantConfig) =>
   'This table is used to update existing users in Entra ID.\n' +
   'Fill in the User Principal Name column, then use Load Data to fetch current values from Entra ID.\n' +
-  'Modify the values as needed and run Update. The following conditions apply:\n\n' +
-  '\u2022 Required fields: Object ID, User Principal Name, Mail, First Name, Last Name, Display Name, Country, City\n' +
+  'Modify the values as needed and run Update. Only values that differ from the loaded ones are sent;\n' +
+  'a cleared cell clears the attribute. Verify highlights changed cells in blue (the note shows the loaded value).\n' +
+  'The following conditions apply:\n\n' +
+  `\u2022 Required fields: ${requiredHeaders('update', tenant).join(', ')}\n` +
   '\u2022 Object ID must be a valid UUID\n' +
   '\u2022 BMS ID or Local HR ID must be filled\n' +
   '\u2022 BMS ID: digits only, no leading zero\n' +
-  '\u2022 UPN domain: majorel.com\n' +
-  '\u2022 Mail domain: majorel.com or mj.teleperformance.com\n' +
+  `\u2022 UPN domain: ${formatDomainList(tenant.upnDomains)}\n` +
+  `\u2022 Mail domain: ${formatDomainList(tenant.mailDomains)}\n` +
   '\u2022 UPN and Mail local part must match\n' +
-  '\u2022 No duplicates in: Object ID, User Principal Name, Mail, BMS ID, Local HR ID\n' +
-  '\u2022 Max. 100 rows';
-
-const UPDATE_COL_WIDTHS: [string, number][] = [
-  ['A:A', 210], ['B:B', 150], ['C:C', 200], ['D:D', 70],
-  ['E:E', 70], ['F:F', 90], ['G:G', 90], ['H:H', 90],
-  ['I:I', 130], ['J:J', 100], ['K:K', 100], ['L:L', 100],
-  ['M:M', 100], ['N:N', 100], ['O:O', 100], ['P:P', 100],
-  ['Q:Q', 100], ['R:R', 100], ['S:S', 100], ['T:T', 100],
-];
+  `\u2022 No duplicates in: ${uniqueHeaders('update').join(', ')}\n` +
+  '\u2022 Hire Date, Leave Date: YYYY-MM-DD or an Excel date; Leave Date not before Hire Date\n' +
+  '\u2022 Leave Date needs the User-LifeCycleInfo permission; delete the column if it is not used\n' +
+  '\u2022 Users changed in Entra ID since Load Data are not updated (logged as conflict)\n' +
+  '\u2022 Manager UPN: must be an existing, enabled user other than the user itself; clearing it removes the manager\n' +
+  `\u2022 Max. ${tenant.maxRows} rows`;
 
 export function UpdateTab() {
   const classes = useAppStyles();
   const { getAccessToken } = useAuth();
   const [verifyResult, setVerifyResult] = useState<VerifyUsersResult | null>(null);
+  const [loadStatus, setLoadStatus] = useState<string | null>(null);
+  const [updateStatus, setUpdateStatus] = useState<string | null>(null);
+  const [previewStatus, setPreviewStatus] = useState<string | null>(null);
+  const [pendingChanges, setPendingChanges] = useState<PendingChanges | null>(null);
+  const [checkCollisions, setCheckCollisions] = useState(false);
+  const [writeIssues, setWriteIssues] = useState(false);
+  const [logSheets, setLogSheets] = useState<string[]>([]);
+  const [undoSheet, setUndoSheet] = useState('');
+  const [undoStatus, setUndoStatus] = useState<string | null>(null);
 
   const handleRunInit = async () => {
     try {
       await Excel.run(async (context) => {
+        const tenant = await readTenantConfig(context);
         await initSheetTemplate(context, {
           sheetName: 'Update',
           tableName: 'UpdateUsers',
           title: 'Update',
-          description: UPDATE_TABLE_DESCRIPTION,
-          headers: UPDATE_TABLE_HEADERS,
-          lastColumnLetter: 'T',
-          columnWidths: UPDATE_COL_WIDTHS,
-          descriptionRowHeight: 220,
+          description: updateTableDescription(tenant),
+          headers: UPDATE_TABLE.headers,
+          lastColumnLetter: templateLastColumnLetter('update'),
+          columnWidths: templateColumnWidths('update'),
+          descriptionRowHeight: 320,
         });
       });
     } catch (err) {
@@ -95,102 +124,184 @@ export function UpdateTab() {
 
   const handleRunLoadData = async () => {
     try {
-      const accessToken = await getAccessToken(['User.Read.All']);
+      const tenant = await Excel.run(readTenantConfig);
       await Excel.run(async (context) => {
         const tableData = await ensureInputAndGetUpdateUsersTable(context);
         if (!hasUpdateTableData(tableData)) {
           return;
         }
-        const { rows, dataBodyRange } = tableData;
+        const { rows, dataBodyRange, columns } = tableData;
+        const keys = presentKeys(UPDATE_TABLE, columns);
+        const session = createTokenSession((forceRefresh) =>
+          getAccessToken(['User.Read.All', ...attributeScopes(tenant, 'read', keys)], forceRefresh)
+        );
+        // Acquire the first token up front so sign-in problems surface before any sheet changes.
+        await session.getToken();
 
-        // Clear all existing notes and fill colors before loading
-        dataBodyRange.format.fill.clear();
-        const worksheet = dataBodyRange.worksheet;
-        const notes = worksheet.notes;
-        notes.load('items');
-        await context.sync();
-        for (const note of notes.items) {
-          note.delete();
-        }
-        await context.sync();
+        // Clear the highlights and notes of the previous Verify before loading
+        await clearCellHighlights(context, dataBodyRange.worksheet);
 
-        // Iterate over rows and load user data by UPN (column index 1)
+        // Load user data for all rows by UPN (column index 1), then write row by row
+        const upns = rows.map((row) => String(row[COL.userPrincipalName] ?? '').trim());
+        const results = await loadUsersByUpn(upns, session, {
+          tenant,
+          keys,
+          onThrottle: (waitMs, attempt) =>
+            setLoadStatus(formatThrottleStatus(waitMs, attempt)),
+        });
+        const loadedAt = new Date().toISOString();
+        const snapshot: UpdateSnapshot = new Map();
         for (let i = 0; i < rows.length; i++) {
-          const upn = String(rows[i]?.[1] ?? '').trim();
-          if (!upn) {
-            await markLoadErrorOnRow(
-              context,
-              dataBodyRange,
-              i,
-              'User Principal Name is empty'
-            );
-            continue;
-          }
-
-          const result = await loadUserByUpn(upn, accessToken);
+          const result = results[i]!;
           if (result.success) {
             await writeLoadedDataToTable(
               context,
               dataBodyRange,
+              columns,
               i,
               result.values
             );
+            setSnapshotEntry(
+              snapshot,
+              createSnapshotEntry(result.values[COL.objectId]!, loadedAt, result.values)
+            );
           } else {
             await markLoadErrorOnRow(
               context,
               dataBodyRange,
               i,
-              result.error
+              result.error,
+              columns[COL.userPrincipalName]
             );
           }
         }
+
+        // Update compares the table against these values and only sends what changed.
+        await writeUpdateSnapshot(context, snapshot);
       });
+      setPendingChanges(null);
     } catch (err) {
       console.error('Load Data failed:', err);
+      if (err instanceof TableColumnsError) setVerifyResult(failedVerifyResult(err));
+    } finally {
+      setLoadStatus(null);
     }
   };
 
   const handleRunVerify = async () => {
     try {
+      const session = createTokenSession((forceRefresh) =>
+        getAccessToken(['User.Read.All'], forceRefresh)
+      );
       const result = await Excel.run(async (context) => {
         const tableData = await ensureInputAndGetUpdateUsersTable(context);
         if (!hasUpdateTableData(tableData)) {
           return NO_INPUT_TABLE_UPDATE_VERIFY_RESULT;
         }
-        const { rows, dataBodyRange } = tableData;
-        const verifyResult = verifyUpdateUsers(rows);
-        await applyUpdateVerifyResultToSheet(context, dataBodyRange, rows, verifyResult);
+        const { rows, dataBodyRange, columns } = tableData;
+        const tenant = await readTenantConfig(context);
+        const snapshot = await readUpdateSnapshot(context);
+        const onlineChecks = await runUpdateOnlineChecks(rows, session, {
+          collisions: checkCollisions,
+          snapshot,
+        });
+        const verifyResult = verifyUpdateUsers(rows, tenant, onlineChecks.findings);
+        await applyUpdateVerifyResultToSheet(context, dataBodyRange, columns, verifyResult);
+        if (writeIssues) {
+          await writeIssuesSheet(context, dataBodyRange, columns, COL.userPrincipalName, verifyResult);
+        } else if (verifyResult.success) {
+          await clearIssues(context, dataBodyRange);
+        }
+        const pending = getPendingChanges(rows, snapshot);
+        await applyPendingChangesToSheet(context, dataBodyRange, columns, pending.rowChanges);
+        setPendingChanges(pending);
         return verifyResult;
       });
 
       setVerifyResult(result);
-    } catch {
-      setVerifyResult({
-        success: false,
-        totalRows: 0,
-        okCount: 0,
-        problemCount: 0,
-        problemRowIndices: [],
+    } catch (err) {
+      setPendingChanges(null);
+      setVerifyResult(failedVerifyResult(err));
+    }
+  };
+
+  const handleRunPreview = async () => {
+    let message: string | null = null;
+    try {
+      const tenant = await Excel.run(readTenantConfig);
+      const result = await Excel.run(async (context) => {
+        const tableData = await ensureInputAndGetUpdateUsersTable(context);
+        if (!hasUpdateTableData(tableData)) {
+          return NO_INPUT_TABLE_UPDATE_VERIFY_RESULT;
+        }
+        const { rows, dataBodyRange, columns } = tableData;
+        const keys = presentKeys(UPDATE_TABLE, columns);
+        const session = createTokenSession((forceRefresh) =>
+          getAccessToken(['User.Read.All', ...attributeScopes(tenant, 'read', keys)], forceRefresh)
+        );
+        const snapshot = await readUpdateSnapshot(context);
+        const onlineChecks = await runUpdateOnlineChecks(rows, session, { snapshot });
+        const verifyResult = verifyUpdateUsers(rows, tenant, onlineChecks.findings);
+        await applyUpdateVerifyResultToSheet(context, dataBodyRange, columns, verifyResult);
+        if (verifyResult.success) await clearIssues(context, dataBodyRange);
+        const pending = getPendingChanges(rows, snapshot);
+        await applyPendingChangesToSheet(context, dataBodyRange, columns, pending.rowChanges);
+        setPendingChanges(pending);
+        if (!verifyResult.success || verifyResult.noInputTable) {
+          message = 'Update would not run: fix the problems found by Verify first.';
+          return verifyResult;
+        }
+
+        const previews = await previewUpdateUsers(rows, session, {
+          snapshot,
+          managers: onlineChecks.managers.resolution,
+          tenant,
+          keys,
+          onThrottle: (waitMs, attempt) =>
+            setPreviewStatus(formatThrottleStatus(waitMs, attempt)),
+        });
+        await writeRequestPreviewSheet(
+          context,
+          'Update',
+          rows.map((row) => String(row[COL.userPrincipalName] ?? '').trim()),
+          previews
+        );
+        return verifyResult;
       });
+
+      setVerifyResult(result);
+    } catch (err) {
+      console.error('Preview Update failed:', err);
+      if (err instanceof TableColumnsError) setVerifyResult(failedVerifyResult(err));
+    } finally {
+      setPreviewStatus(message);
     }
   };
 
   const handleRunUpdate = async () => {
     try {
-      const accessToken = await getAccessToken(['User.ReadWrite.All']);
+      const tenant = await Excel.run(readTenantConfig);
       const runResult = await Excel.run(async (context) => {
         const tableData = await ensureInputAndGetUpdateUsersTable(context);
         if (!hasUpdateTableData(tableData)) {
           return { verifyResult: NO_INPUT_TABLE_UPDATE_VERIFY_RESULT, updated: false };
         }
-        const { rows, dataBodyRange } = tableData;
-        const verifyResultData = verifyUpdateUsers(rows);
-        await applyUpdateVerifyResultToSheet(
-          context,
-          dataBodyRange,
-          rows,
-          verifyResultData
+        const { rows, dataBodyRange, columns } = tableData;
+        const keys = presentKeys(UPDATE_TABLE, columns);
+        const scopes = ['User.ReadWrite.All', ...attributeScopes(tenant, 'write', keys)];
+        const session = createTokenSession((forceRefresh) =>
+          getAccessToken(scopes, forceRefresh)
         );
+        // Acquire the first token up front so sign-in problems surface before any sheet changes.
+        await session.getToken();
+        const snapshot = await readUpdateSnapshot(context);
+        const onlineChecks = await runUpdateOnlineChecks(rows, session, { snapshot });
+        const verifyResultData = verifyUpdateUsers(rows, tenant, onlineChecks.findings);
+        await applyUpdateVerifyResultToSheet(context, dataBodyRange, columns, verifyResultData);
+        if (verifyResultData.success) await clearIssues(context, dataBodyRange);
+        const pending = getPendingChanges(rows, snapshot);
+        await applyPendingChangesToSheet(context, dataBodyRange, columns, pending.rowChanges);
+        setPendingChanges(pending);
 
         if (!verifyResultData.success || verifyResultData.noInputTable) {
           return { verifyResult: verifyResultData, updated: false };
@@ -214,11 +325,17 @@ export function UpdateTab() {
           'Display Name',
           'Status',
           'Error',
+          'Changes',
+          'Conflicts (loaded | current | desired)',
+          'Manager',
+          'Retries',
+          'Token',
+          UPDATE_LOG_CHANGES_JSON_HEADER,
         ] as const;
 
-        const headerRange = newSheet.getRange('A1:F1');
+        const headerRange = newSheet.getRange('A1:L1');
         headerRange.values = [LOG_HEADERS as unknown as string[]];
-        const logTable = newSheet.tables.add('A1:F1', true);
+        const logTable = newSheet.tables.add('A1:L1', true);
 
         newSheet.getRange('A:A').format.columnWidth = 170;
         newSheet.getRange('B:B').format.columnWidth = 210;
@@ -226,27 +343,65 @@ export function UpdateTab() {
         newSheet.getRange('D:D').format.columnWidth = 170;
         newSheet.getRange('E:E').format.columnWidth = 100;
         newSheet.getRange('F:F').format.columnWidth = 300;
+        newSheet.getRange('G:H').format.columnWidth = 400;
+        newSheet.getRange('I:I').format.columnWidth = 260;
+        newSheet.getRange('J:J').format.columnWidth = 70;
+        newSheet.getRange('K:K').format.columnWidth = 170;
+        newSheet.getRange('L:L').format.columnWidth = 100;
 
-        const logRows: (string | number)[][] = [];
-        for (const row of rows) {
-          const objectId = String(row[0] ?? '').trim();
-          const upn = String(row[1] ?? '').trim();
-          const displayName = String(row[8] ?? '').trim();
-          const result = await updateUser(row, accessToken);
-          logRows.push([
-            new Date().toISOString(),
+        const results = await updateUsers(rows, session, {
+          snapshot,
+          managers: onlineChecks.managers.resolution,
+          tenant,
+          keys,
+          onThrottle: (waitMs, attempt) =>
+            setUpdateStatus(formatThrottleStatus(waitMs, attempt)),
+        });
+        const timestamp = new Date().toISOString();
+        const logRows: (string | number)[][] = rows.map((row, i) => {
+          const objectId = String(row[COL.objectId] ?? '').trim();
+          const upn = String(row[COL.userPrincipalName] ?? '').trim();
+          const displayName = String(row[COL.displayName] ?? '').trim();
+          const result = results[i]!;
+          return [
+            timestamp,
             objectId,
             upn,
             displayName,
             result.status,
             result.error ?? '',
-          ]);
-        }
+            formatAttributeChanges(result.appliedChanges),
+            formatAttributeConflicts(result.conflicts),
+            formatManagerAssignmentResult(result.managerResult),
+            result.retries,
+            formatTokenUsage(result.token),
+            // Before- and after-image of the applied changes, read by Undo Update Run.
+            serializeAttributeChanges(result.appliedChanges),
+          ];
+        });
 
         if (logRows.length > 0) {
           logTable.rows.add(undefined, logRows);
         }
 
+        // Refresh the snapshot so the next Update only sends what changed since this run.
+        results.forEach((result, i) => {
+          const entry = getSnapshotEntry(snapshot, String(rows[i]![COL.objectId] ?? ''));
+          if (entry && result.appliedChanges.length > 0) {
+            setSnapshotEntry(
+              snapshot,
+              applyChangesToSnapshotEntry(entry, result.appliedChanges, timestamp)
+            );
+          }
+        });
+        await writeUpdateSnapshot(context, snapshot);
+
+        // Re-highlight against the refreshed snapshot: only changes that failed stay pending.
+        await applyUpdateVerifyResultToSheet(context, dataBodyRange, columns, verifyResultData);
+        const remaining = getPendingChanges(rows, snapshot);
+        await applyPendingChangesToSheet(context, dataBodyRange, columns, remaining.rowChanges);
+        setPendingChanges(remaining);
+
         await context.sync();
         return { verifyResult: verifyResultData, updated: true };
       });
@@ -254,6 +409,139 @@ export function UpdateTab() {
       setVerifyResult(runResult.verifyResult);
     } catch (err) {
       console.error('Update failed:', err);
+      if (err instanceof TableColumnsError) setVerifyResult(failedVerifyResult(err));
+    } finally {
+      setUpdateStatus(null);
+    }
+  };
+
+  const refreshLogSheets = async () => {
+    try {
+      const sheets = await Excel.run((context) => listUpdateLogSheets(context));
+      setLogSheets(sheets);
+      if (!sheets.includes(undoSheet)) {
+        setUndoSheet(sheets[0] ?? '');
+      }
+    } catch (err) {
+      console.error('Listing Update logs failed:', err);
+    }
+  };
+
+  const handleRunUndo = async () => {
+    let message: string | null = null;
+    try {
+      if (!undoSheet) {
+        message = 'Select the Update run to undo.';
+        return;
+      }
+      const tenant = await Excel.run(readTenantConfig);
+      await Excel.run(async (context) => {
+        const entries = await readUpdateLogEntries(context, undoSheet);
+        if (entries === null) {
+          message = `${undoSheet} has no undo data (logs of older versions cannot be undone).`;
+          return;
+        }
+        if (entries.length === 0) {
+          message = `${undoSheet} has no applied changes to undo.`;
+          return;
+        }
+        const keys = [
+          ...new Set(
+            entries.flatMap((entry) => entry.changes.map((c) => UPDATE_TABLE.keys[c.index]!))
+          ),
+        ];
+        const scopes = ['User.ReadWrite.All', ...attributeScopes(tenant, 'write', keys)];
+        const session = createTokenSession((forceRefresh) =>
+          getAccessToken(scopes, forceRefresh)
+        );
+        // Acquire the first token up front so sign-in problems surface before any sheet changes.
+        await session.getToken();
+
+        const results = await undoUpdateRun(entries, session, {
+          tenant,
+          keys,
+          onThrottle: (waitMs, attempt) =>
+            setUndoStatus(formatThrottleStatus(waitMs, attempt)),
+        });
+
+        const worksheets = context.workbook.worksheets;
+        const sheetName =
+          'Undo_' +
+          new Date()
+            .toISOString()
+            .slice(0, 19)
+            .replace('T', '_')
+            .replace(/:/g, '-');
+        const newSheet = worksheets.add(sheetName);
+        newSheet.activate();
+
+        const LOG_HEADERS = [
+          'Timestamp',
+          'Update Run',
+          'Object ID',
+          'User Principal Name',
+          'Status',
+          'Error',
+          'Reverted Changes',
+          'Conflicts (run result | current | before)',
+          'Manager',
+          'Retries',
+          'Token',
+        ] as const;
+
+        const headerRange = newSheet.getRange('A1:K1');
+        headerRange.values = [LOG_HEADERS as unknown as string[]];
+        const logTable = newSheet.tables.add('A1:K1', true);
+
+        newSheet.getRange('A:A').format.columnWidth = 170;
+        newSheet.getRange('B:B').format.columnWidth = 170;
+        newSheet.getRange('C:C').format.columnWidth = 210;
+        newSheet.getRange('D:D').format.columnWidth = 170;
+        newSheet.getRange('E:E').format.columnWidth = 100;
+        newSheet.getRange('F:F').format.columnWidth = 300;
+        newSheet.getRange('G:H').format.columnWidth = 400;
+        newSheet.getRange('I:I').format.columnWidth = 260;
+        newSheet.getRange('J:J').format.columnWidth = 70;
+        newSheet.getRange('K:K').format.columnWidth = 170;
+
+        const timestamp = new Date().toISOString();
+        const logRows: (string | number)[][] = entries.map((entry, i) => {
+          const result = results[i]!;
+          return [
+            timestamp,
+            undoSheet,
+            entry.objectId,
+            entry.userPrincipalName,
+            result.status,
+            result.error ?? '',
+            formatAttributeChanges(result.appliedChanges),
+            formatAttributeConflicts(result.conflicts, ['run result', 'current', 'before']),
+            formatManagerAssignmentResult(result.managerResult),
+            result.retries,
+            formatTokenUsage(result.token),
+          ];
+        });
+        logTable.rows.add(undefined, logRows);
+
+        // Keep the Update snapshot in line with the directory for users that were reverted.
+        const snapshot = await readUpdateSnapshot(context);
+        results.forEach((result, i) => {
+          const entry = getSnapshotEntry(snapshot, entries[i]!.objectId);
+          if (entry && result.appliedChanges.length > 0) {
+            setSnapshotEntry(
+              snapshot,
+              applyChangesToSnapshotEntry(entry, result.appliedChanges, timestamp)
+            );
+          }
+        });
+        await writeUpdateSnapshot(context, snapshot);
+
+        await context.sync();
+      });
+    } catch (err) {
+      console.error('Undo Update Run failed:', err);
+    } finally {
+      setUndoStatus(message);
     }
   };
 
@@ -270,6 +558,7 @@ export function UpdateTab() {
         description="Loads current user data from Entra ID by User Principal Name."
         buttonLabel="Load"
         onAction={handleRunLoadData}
+        status={loadStatus}
       />
       <ActionCard
         title="Verify Data"
@@ -277,14 +566,63 @@ export function UpdateTab() {
         buttonLabel="Verify"
         onAction={handleRunVerify}
       >
+        <div className={classes.cardOptions}>
+          <Checkbox
+            label="Check for collisions with other users in Entra ID"
+            checked={checkCollisions}
+            onChange={(_, data) => setCheckCollisions(data.checked === true)}
+          />
+          <Checkbox
+            label="Write the issues to the Issues sheet"
+            checked={writeIssues}
+            onChange={(_, data) => setWriteIssues(data.checked === true)}
+          />
+        </div>
         <VerifyResultPanel result={verifyResult} noDataLabel="No Update Data" />
       </ActionCard>
+      <ActionCard
+        title="Preview"
+        description="Writes the requests Update would send to a preview sheet, without changing Entra ID."
+        buttonLabel="Preview"
+        onAction={handleRunPreview}
+        status={previewStatus}
+      />
       <ActionCard
         title="Update"
         description="Updates existing user accounts in Entra ID."
         buttonLabel="Update"
         onAction={handleRunUpdate}
-      />
+        status={updateStatus}
+      >
+        <PendingChangesPanel pending={pendingChanges} />
+      </ActionCard>
+      <ActionCard
+        title="Undo Update Run"
+        description="Reverts the changes of an Update run to the values before the run, if they were not changed since."
+        buttonLabel="Undo"
+        onAction={handleRunUndo}
+        status={undoStatus}
+      >
+        <div className={classes.cardOptions}>
+          <Field label="Update run (log sheet)">
+            <Dropdown
+              placeholder="Select an Update run"
+              value={undoSheet}
+              selectedOptions={undoSheet ? [undoSheet] : []}
+              onOpenChange={(_, data) => {
+                if (data.open) void refreshLogSheets();
+              }}
+              onOptionSelect={(_, data) => setUndoSheet(data.optionValue ?? '')}
+            >
+              {logSheets.map((name) => (
+                <Option key={name} value={name}>
+                  {name}
+                </Option>
+              ))}
+            </Dropdown>
+          </Field>
+        </div>
+      </ActionCard>
     </div>
   );
 }
@@ -1,6 +1,7 @@
 /**
  * Shared Verify Result display panel.
- * Shows verification status (ok/errors/warning) and a summary table.
+ * Shows verification status (ok/errors/warning), a summary table, issue counts per severity
+ * and per rule, tenant profile problems and batch-level warnings.
  */
 
 import {
@@ -18,9 +19,10 @@ import {
   CheckmarkCircle24Filled,
   ErrorCircle20Regular,
   ErrorCircle24Filled,
+  Warning20Regular,
   Warning24Filled,
 } from '@fluentui/react-icons';
-import type { VerifyUsersResult } from '../verifyCore';
+import type { IssueSeverity, ValidationIssue, VerifyUsersResult } from '../verifyCore';
 import { useAppStyles } from '../App.styles';
 
 interface VerifyResultPanelProps {
@@ -29,6 +31,20 @@ interface VerifyResultPanelProps {
   noDataLabel: string;
 }
 
+const SEVERITY_LABELS: [IssueSeverity, string][] = [
+  ['error', 'Errors'],
+  ['warning', 'Warnings'],
+  ['info', 'Info'],
+];
+
+function countBy(issues: ValidationIssue[], key: (issue: ValidationIssue) => string) {
+  const counts = new Map<string, number>();
+  for (const issue of issues) {
+    counts.set(key(issue), (counts.get(key(issue)) ?? 0) + 1);
+  }
+  return counts;
+}
+
 export function VerifyResultPanel({ result, noDataLabel }: VerifyResultPanelProps) {
   const classes = useAppStyles();
 
@@ -42,6 +58,12 @@ export function VerifyResultPanel({ result, noDataLabel }: VerifyResultPanelProp
     );
   }
 
+  const severityCounts = countBy(result.issues, (issue) => issue.severity);
+  const ruleCounts = [...countBy(result.issues, (issue) => issue.rule)].sort(
+    ([a, countA], [b, countB]) => countB - countA || a.localeCompare(b)
+  );
+  const hasWarnings = (severityCounts.get('warning') ?? 0) > 0;
+
   return (
     <div className={classes.verifyResult} aria-live="polite">
       <div className={classes.verifyStats}>
@@ -59,7 +81,9 @@ export function VerifyResultPanel({ result, noDataLabel }: VerifyResultPanelProp
             result.noInputTable
               ? noDataLabel
               : result.success
-                ? 'OK – Verification passed.'
+                ? hasWarnings
+                  ? 'OK – Verification passed with warnings.'
+                  : 'OK – Verification passed.'
                 : 'Verification completed with problems.'
           }
         >
@@ -74,7 +98,9 @@ export function VerifyResultPanel({ result, noDataLabel }: VerifyResultPanelProp
             {result.noInputTable
               ? noDataLabel
               : result.success
-                ? 'Verification passed.'
+                ? hasWarnings
+                  ? 'Verification passed with warnings.'
+                  : 'Verification passed.'
                 : 'Verification completed with problems.'}
           </Body1>
         </div>
@@ -110,6 +136,59 @@ export function VerifyResultPanel({ result, noDataLabel }: VerifyResultPanelProp
             </TableRow>
           </TableBody>
         </Table>
+        {result.issues.length > 0 && (
+          <Table className={classes.verifyTable} size="small">
+            <TableHeader>
+              <TableRow>
+                <TableHeaderCell>Issues</TableHeaderCell>
+                <TableHeaderCell>Count</TableHeaderCell>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {SEVERITY_LABELS.filter(([severity]) => severityCounts.has(severity)).map(
+                ([severity, label]) => (
+                  <TableRow
+                    key={severity}
+                    className={
+                      severity === 'error'
+                        ? classes.verifyTableRowErrors
+                        : severity === 'warning'
+                          ? classes.verifyMessageWarning
+                          : undefined
+                    }
+                  >
+                    <TableCell>{label}</TableCell>
+                    <TableCell>{severityCounts.get(severity)}</TableCell>
+                  </TableRow>
+                )
+              )}
+              {ruleCounts.map(([rule, count]) => (
+                <TableRow key={rule}>
+                  <TableCell>{rule}</TableCell>
+                  <TableCell>{count}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+        {result.tenantProblems?.map((problem) => (
+          <div
+            key={problem}
+            className={mergeClasses(classes.verifyMessageLine, classes.verifyMessageErrors)}
+          >
+            <ErrorCircle20Regular className={classes.verifyTableIcon} />
+            <Body1>Tenant profile (Settings): {problem}</Body1>
+          </div>
+        ))}
+        {result.warnings?.map((warning) => (
+          <div
+            key={warning}
+            className={mergeClasses(classes.verifyMessageLine, classes.verifyMessageWarning)}
+          >
+            <Warning20Regular className={classes.verifyTableIcon} />
+            <Body1>{warning}</Body1>
+          </div>
+        ))}
       </div>
     </div>
   );
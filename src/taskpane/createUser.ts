@@ -1,103 +1,117 @@
 /**
- * Create User via Microsoft Graph API (POST /users).
+ * Create User via Microsoft Graph API (POST /users, sent through $batch).
  * Maps CreateUsers table columns to Graph user properties.
+ * Adds created users to the groups from the Groups column, assigns the licenses
+ * from the License SKUs column, sets the manager from the Manager UPN column,
+ * and optionally issues a Temporary Access Pass
+ * instead of disclosing the initial password.
  */
 
 import {
-  GRAPH_USERS_URL,
   cell,
-  parseGraphErrorResponse,
-  toErrorMessage,
+  escapeODataString,
+  type GraphRequestOptions,
 } from './graphHelpers';
+import {
+  getBatchErrorMessage,
+  isBatchSuccess,
+  sendGraphBatch,
+  type GraphBatchRequest,
+  type GraphBatchResponse,
+} from './graphBatch';
+import { mergeTokenUsage, type TokenSession, type TokenUsage } from './tokenSession';
+import {
+  addGroupMemberships,
+  type GroupMembershipResult,
+  type GroupResolution,
+} from './groupMembership';
+import {
+  assignLicenses,
+  type LicenseAssignmentResult,
+  type SkuResolution,
+} from './licenseAssignment';
+import {
+  assignManagers,
+  type ManagerAssignmentResult,
+  type ManagerResolution,
+} from './managerAssignment';
+import {
+  DEFAULT_PASSWORD_POLICY,
+  generatePassword,
+  type PasswordPolicy,
+} from './passwordGenerator';
+import {
+  emptyRequestPreview,
+  formatRequestBody,
+  MASKED_PASSWORD,
+  type RequestPreview,
+} from './requestPreview';
+import {
+  CREATE_TABLE,
+  rowToGraphProperties,
+  type GraphUserProperties,
+} from './userAttributes';
+import { DEFAULT_TENANT_CONFIG, type TenantConfig } from './tenantConfig';
+
+/** How new users receive their initial credential. */
+export type CredentialMode = 'password' | 'temporaryAccessPass';
+
+export interface TemporaryAccessPassSettings {
+  /** Lifetime of the pass in minutes (Entra ID allows 10–43200, subject to the tenant policy). */
+  lifetimeInMinutes: number;
+  /** Whether the pass can be used for one sign-in only. */
+  isUsableOnce: boolean;
+}
+
+export const DEFAULT_TEMPORARY_ACCESS_PASS_SETTINGS: TemporaryAccessPassSettings = {
+  lifetimeInMinutes: 480,
+  isUsableOnce: true,
+};
+
+export const MIN_TAP_LIFETIME_MINUTES = 10;
+export const MAX_TAP_LIFETIME_MINUTES = 43200;
+
+export interface IssuedTemporaryAccessPass {
+  pass: string;
+  /** ISO timestamp when the pass expires. */
+  expiresDateTime: string;
+}
 
 export interface CreateUserResult {
   objectId: string | null;
+  /** Initial password; null in Temporary Access Pass mode (the random password is never disclosed). */
   generatedPassword: string | null;
+  /** Set in Temporary Access Pass mode when the pass was issued. */
+  temporaryAccessPass?: IssuedTemporaryAccessPass;
+  /** One entry per group in the Groups column (empty when the user was not created). */
+  groupResults: GroupMembershipResult[];
+  /** License assignment, reported separately from account creation; null when nothing was assigned. */
+  licenseResult: LicenseAssignmentResult | null;
+  /** Manager assignment; null when the Manager UPN column is empty or the user was not created. */
+  managerResult: ManagerAssignmentResult | null;
   status: 'success' | 'error' | 'skipped';
   error?: string;
+  /** Number of throttling retries needed for this row's Graph requests. */
+  retries: number;
+  /** Token used for this row's last Graph request (age and refresh event for the run log). */
+  token: TokenUsage | null;
 }
 
-/** Column indices matching USERS_TABLE_HEADERS in App.tsx */
-const COL = {
-  userPrincipalName: 0,
-  mail: 1,
-  bmsId: 2,
-  localHrId: 3,
-  snTicketId: 4,
-  firstName: 5,
-  lastName: 6,
-  displayName: 7,
-  country: 8,
-  city: 9,
-  jobTitle: 10,
-  officeLocation: 11,
-  streetAddress: 12,
-  state: 13,
-  postalCode: 14,
-  businessPhone: 15,
-  mobilePhone: 16,
-  companyName: 17,
-  department: 18,
-} as const;
-
-function generatePassword(): string {
-  const length = 16;
-  const lower = 'abcdefghjkmnpqrstuvwxyz';
-  const upper = 'ABCDEFGHJKMNPQRSTUVWXYZ';
-  const digits = '23456789';
-  const special = '!@#$%&*';
-  const all = lower + upper + digits + special;
-  const getRandom = (chars: string) =>
-    chars[Math.floor(Math.random() * chars.length)];
-  let pw =
-    getRandom(lower) +
-    getRandom(upper) +
-    getRandom(digits) +
-    getRandom(special);
-  for (let i = pw.length; i < length; i++) {
-    pw += all[Math.floor(Math.random() * all.length)];
-  }
-  return pw
-    .split('')
-    .sort(() => Math.random() - 0.5)
-    .join('');
-}
-
-interface GraphUserBody {
-  accountEnabled: boolean;
-  displayName: string;
-  mailNickname: string;
-  userPrincipalName: string;
-  passwordProfile: {
-    password: string;
-    forceChangePasswordNextSignIn: boolean;
-  };
-  mail?: string;
-  employeeId?: string;
-  onPremisesExtensionAttributes?: {
-    extensionAttribute14?: string;
-    extensionAttribute15?: string;
-  };
-  givenName?: string;
-  surname?: string;
-  country?: string;
-  city?: string;
-  jobTitle?: string;
-  officeLocation?: string;
-  streetAddress?: string;
-  state?: string;
-  postalCode?: string;
-  businessPhones?: string[];
-  mobilePhone?: string;
-  companyName?: string;
-  department?: string;
-}
+const COL = CREATE_TABLE.col;
 
-function rowToGraphUser(row: unknown[], password: string): GraphUserBody {
+/**
+ * The POST /users body: account fields, then the attributes of the non-empty cells
+ * (see USER_ATTRIBUTES).
+ */
+function rowToGraphUser(
+  row: unknown[],
+  password: string,
+  tenant: TenantConfig
+): GraphUserProperties {
   const upn = cell(row, COL.userPrincipalName);
   const mailNickname = upn.includes('@') ? upn.split('@')[0]! : upn;
 
-  const body: GraphUserBody = {
+  return {
     accountEnabled: true,
     displayName: cell(row, COL.displayName),
     mailNickname,
@@ -106,143 +120,337 @@ function rowToGraphUser(row: unknown[], password: string): GraphUserBody {
       password,
       forceChangePasswordNextSignIn: true,
     },
+    ...rowToGraphProperties(row, tenant),
   };
+}
 
-  const mail = cell(row, COL.mail);
-  if (mail) body.mail = mail;
-
-  const employeeId = cell(row, COL.bmsId);
-  if (employeeId) body.employeeId = employeeId;
-
-  const localHrId = cell(row, COL.localHrId);
-  const snTicketId = cell(row, COL.snTicketId);
-  if (localHrId || snTicketId) {
-    body.onPremisesExtensionAttributes = {};
-    if (localHrId) body.onPremisesExtensionAttributes.extensionAttribute14 = localHrId;
-    if (snTicketId) body.onPremisesExtensionAttributes.extensionAttribute15 = snTicketId;
-  }
-
-  const givenName = cell(row, COL.firstName);
-  if (givenName) body.givenName = givenName;
-
-  const surname = cell(row, COL.lastName);
-  if (surname) body.surname = surname;
-
-  const country = cell(row, COL.country);
-  if (country) body.country = country;
-
-  const city = cell(row, COL.city);
-  if (city) body.city = city;
-
-  const jobTitle = cell(row, COL.jobTitle);
-  if (jobTitle) body.jobTitle = jobTitle;
-
-  const officeLocation = cell(row, COL.officeLocation);
-  if (officeLocation) body.officeLocation = officeLocation;
-
-  const streetAddress = cell(row, COL.streetAddress);
-  if (streetAddress) body.streetAddress = streetAddress;
+/** Builds the $batch sub-request that checks whether a user with the given UPN already exists. */
+function existenceCheckRequest(id: string, userPrincipalName: string): GraphBatchRequest {
+  const encoded = encodeURIComponent(`userPrincipalName eq '${escapeODataString(userPrincipalName)}'`);
+  return {
+    id,
+    method: 'GET',
+    url: `/users?$filter=${encoded}&$select=id&$top=1`,
+  };
+}
 
-  const state = cell(row, COL.state);
-  if (state) body.state = state;
+/** Builds the $batch sub-request that creates the user of a row. */
+function createUserRequest(
+  id: string,
+  row: unknown[],
+  password: string,
+  tenant: TenantConfig
+): GraphBatchRequest {
+  return {
+    id,
+    method: 'POST',
+    url: '/users',
+    body: rowToGraphUser(row, password, tenant),
+  };
+}
 
-  const postalCode = cell(row, COL.postalCode);
-  if (postalCode) body.postalCode = postalCode;
+export interface CreateUsersOptions extends GraphRequestOptions {
+  /** Policy for the generated initial passwords. Defaults to DEFAULT_PASSWORD_POLICY. */
+  passwordPolicy?: PasswordPolicy;
+  /** Defaults to 'password'. */
+  credentialMode?: CredentialMode;
+  /** Used in 'temporaryAccessPass' mode. Defaults to DEFAULT_TEMPORARY_ACCESS_PASS_SETTINGS. */
+  temporaryAccessPass?: TemporaryAccessPassSettings;
+  /** Groups resolved by Verify (checkGroups); required when rows use the Groups column. */
+  groups?: GroupResolution;
+  /** SKUs resolved by Verify (checkLicenses); required when rows use the License SKUs column. */
+  licenses?: SkuResolution;
+  /** Managers resolved by Verify (checkManagers); required when rows use the Manager UPN column. */
+  managers?: ManagerResolution;
+  /** Tenant profile (targets of the custom columns). Defaults to DEFAULT_TENANT_CONFIG. */
+  tenant?: TenantConfig;
+}
 
-  const businessPhone = cell(row, COL.businessPhone);
-  if (businessPhone) body.businessPhones = [businessPhone];
+function errorResult(
+  error: string,
+  retries = 0,
+  token: TokenUsage | null = null
+): CreateUserResult {
+  return {
+    objectId: null,
+    generatedPassword: null,
+    groupResults: [],
+    licenseResult: null,
+    managerResult: null,
+    status: 'error',
+    error,
+    retries,
+    token,
+  };
+}
 
-  const mobilePhone = cell(row, COL.mobilePhone);
-  if (mobilePhone) body.mobilePhone = mobilePhone;
+/**
+ * Issues a Temporary Access Pass for every successfully created user
+ * (POST /users/{id}/authentication/temporaryAccessPassMethods) and updates the results in place.
+ * A failed pass turns the row into an error while keeping the Object ID of the created user.
+ */
+async function issueTemporaryAccessPasses(
+  results: CreateUserResult[],
+  settings: TemporaryAccessPassSettings,
+  session: TokenSession,
+  options: GraphRequestOptions
+): Promise<void> {
+  const requests: GraphBatchRequest[] = [];
+  results.forEach((result, i) => {
+    if (result.status !== 'success' || !result.objectId) return;
+    requests.push({
+      id: String(i),
+      method: 'POST',
+      url: `/users/${encodeURIComponent(result.objectId)}/authentication/temporaryAccessPassMethods`,
+      body: {
+        lifetimeInMinutes: settings.lifetimeInMinutes,
+        isUsableOnce: settings.isUsableOnce,
+      },
+    });
+  });
 
-  const companyName = cell(row, COL.companyName);
-  if (companyName) body.companyName = companyName;
+  const responses = await sendGraphBatch(requests, session, options);
+  for (const [id, response] of responses) {
+    const result = results[Number(id)]!;
+    result.retries += response.retries;
+    result.token = mergeTokenUsage(result.token, response.token);
 
-  const department = cell(row, COL.department);
-  if (department) body.department = department;
+    if (!isBatchSuccess(response)) {
+      result.status = 'error';
+      result.error = `User created, but Temporary Access Pass failed: ${getBatchErrorMessage(response)}`;
+      continue;
+    }
 
-  return body;
+    const data = response.body as {
+      temporaryAccessPass?: string;
+      startDateTime?: string | null;
+      lifetimeInMinutes?: number;
+    };
+    const start = data.startDateTime ? Date.parse(data.startDateTime) : Date.now();
+    const lifetime = data.lifetimeInMinutes ?? settings.lifetimeInMinutes;
+    result.temporaryAccessPass = {
+      pass: data.temporaryAccessPass ?? '',
+      expiresDateTime: new Date(start + lifetime * 60_000).toISOString(),
+    };
+  }
 }
 
-/** Check if a user with the given userPrincipalName already exists (Graph API). */
-async function userExistsByUpn(
-  userPrincipalName: string,
-  accessToken: string
-): Promise<boolean> {
-  const encoded = encodeURIComponent(`userPrincipalName eq '${userPrincipalName.replace(/'/g, "''")}'`);
-  const url = `${GRAPH_USERS_URL}?$filter=${encoded}&$select=id&$top=1`;
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: { Authorization: `Bearer ${accessToken}` },
-  });
-  if (!response.ok) return false;
-  const data = (await response.json()) as { value?: unknown[] };
-  return Array.isArray(data.value) && data.value.length > 0;
-}
+/**
+ * Checks all UPNs for existence. Returns the initial result per row (error without UPN,
+ * skipped for existing users, null for users to create) and the existence check responses
+ * keyed by row index. A failed check does not block the create.
+ */
+async function checkExistingUsers(
+  rows: unknown[][],
+  session: TokenSession,
+  options: GraphRequestOptions
+): Promise<{
+  results: (CreateUserResult | null)[];
+  existenceResponses: Map<string, GraphBatchResponse>;
+}> {
+  const results: (CreateUserResult | null)[] = rows.map((row) =>
+    cell(row, COL.userPrincipalName) ? null : errorResult('userPrincipalName is required')
+  );
 
-export async function createUser(
-  row: unknown[],
-  accessToken: string
-): Promise<CreateUserResult> {
-  const upn = cell(row, COL.userPrincipalName);
-  if (!upn) {
-    return {
-      objectId: null,
-      generatedPassword: null,
-      status: 'error',
-      error: 'userPrincipalName is required',
-    };
-  }
+  const existenceRequests: GraphBatchRequest[] = [];
+  rows.forEach((row, i) => {
+    if (results[i] === null) {
+      existenceRequests.push(existenceCheckRequest(String(i), cell(row, COL.userPrincipalName)));
+    }
+  });
 
-  try {
-    const exists = await userExistsByUpn(upn, accessToken);
-    if (exists) {
-      return {
+  const existenceResponses = await sendGraphBatch(existenceRequests, session, options);
+  for (const [id, response] of existenceResponses) {
+    if (!isBatchSuccess(response)) {
+      console.warn(
+        'userExistsByUpn check failed, continuing with create:',
+        getBatchErrorMessage(response)
+      );
+      continue;
+    }
+    const data = response.body as { value?: unknown[] } | undefined;
+    if (Array.isArray(data?.value) && data.value.length > 0) {
+      results[Number(id)] = {
         objectId: null,
         generatedPassword: null,
+        groupResults: [],
+        licenseResult: null,
+        managerResult: null,
         status: 'skipped',
         error: 'UPN already exists',
+        retries: response.retries,
+        token: response.token,
       };
     }
-  } catch (err) {
-    console.warn('userExistsByUpn check failed, continuing with create:', toErrorMessage(err));
   }
 
-  const password = generatePassword();
-  const body = rowToGraphUser(row, password);
+  return { results, existenceResponses };
+}
+
+/**
+ * Creates users for all given rows using Graph $batch requests.
+ * First checks all UPNs for existence (existing users are skipped), then posts the new users.
+ * Created users are then added to their groups, get their licenses and their manager. In 'temporaryAccessPass' mode the users
+ * get a random, undisclosed password and a Temporary Access Pass is issued afterwards.
+ * Returns one result per row, in row order.
+ */
+export async function createUsers(
+  rows: unknown[][],
+  session: TokenSession,
+  options: CreateUsersOptions = {}
+): Promise<CreateUserResult[]> {
+  const passwordPolicy = options.passwordPolicy ?? DEFAULT_PASSWORD_POLICY;
+  const credentialMode = options.credentialMode ?? 'password';
+  const { results, existenceResponses } = await checkExistingUsers(rows, session, options);
 
-  try {
-    const response = await fetch(GRAPH_USERS_URL, {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(body),
-    });
+  const passwords = new Map<number, string>();
+  const createRequests: GraphBatchRequest[] = [];
+  rows.forEach((row, i) => {
+    if (results[i] !== null) return;
+    const password = generatePassword(passwordPolicy);
+    passwords.set(i, password);
+    createRequests.push(
+      createUserRequest(String(i), row, password, options.tenant ?? DEFAULT_TENANT_CONFIG)
+    );
+  });
 
+  const createResponses = await sendGraphBatch(createRequests, session, options);
+  for (const [id, response] of createResponses) {
+    const index = Number(id);
+    const existence = existenceResponses.get(id);
+    const retries = (existence?.retries ?? 0) + response.retries;
+    const token = mergeTokenUsage(existence?.token ?? null, response.token);
     if (response.status === 201) {
-      const data = (await response.json()) as { id?: string };
-      return {
-        objectId: data.id ?? null,
-        generatedPassword: password,
+      const data = response.body as { id?: string } | undefined;
+      results[index] = {
+        objectId: data?.id ?? null,
+        generatedPassword:
+          credentialMode === 'password' ? passwords.get(index) ?? null : null,
+        groupResults: [],
+        licenseResult: null,
+        managerResult: null,
         status: 'success',
+        retries,
+        token,
       };
+    } else {
+      results[index] = errorResult(getBatchErrorMessage(response), retries, token);
     }
+  }
 
-    const errorMessage = await parseGraphErrorResponse(response);
-    return {
-      objectId: null,
-      generatedPassword: null,
-      status: 'error',
-      error: errorMessage,
-    };
-  } catch (err) {
+  const finalResults = results.map((r) => r ?? errorResult('No response received'));
+
+  const memberships = await addGroupMemberships(
+    finalResults.map((result, i) => ({
+      objectId: result.status === 'success' ? result.objectId : null,
+      groups: cell(rows[i] ?? [], COL.groups),
+    })),
+    options.groups ?? new Map(),
+    session,
+    options
+  );
+  memberships.forEach(({ results: groupResults, retries }, i) => {
+    finalResults[i]!.groupResults = groupResults;
+    finalResults[i]!.retries += retries;
+  });
+
+  const licenseAssignments = await assignLicenses(
+    finalResults.map((result, i) => ({
+      objectId: result.status === 'success' ? result.objectId : null,
+      licenses: cell(rows[i] ?? [], COL.licenseSkus),
+    })),
+    options.licenses ?? new Map(),
+    session,
+    options
+  );
+  licenseAssignments.forEach(({ result: licenseResult, retries }, i) => {
+    finalResults[i]!.licenseResult = licenseResult;
+    finalResults[i]!.retries += retries;
+  });
+
+  const managerAssignments = await assignManagers(
+    finalResults.map((result, i) => ({
+      objectId: result.status === 'success' ? result.objectId : null,
+      managerUpn: cell(rows[i] ?? [], COL.managerUpn),
+    })),
+    options.managers ?? new Map(),
+    session,
+    options
+  );
+  managerAssignments.forEach(({ result: managerResult, retries }, i) => {
+    finalResults[i]!.managerResult = managerResult;
+    finalResults[i]!.retries += retries;
+  });
+
+  if (credentialMode === 'temporaryAccessPass') {
+    await issueTemporaryAccessPasses(
+      finalResults,
+      options.temporaryAccessPass ?? DEFAULT_TEMPORARY_ACCESS_PASS_SETTINGS,
+      session,
+      options
+    );
+  }
+
+  return finalResults;
+}
+
+/** Describes the requests createUsers sends after creating the user of a row. */
+function createFollowUps(row: unknown[], options: CreateUsersOptions): string[] {
+  const followUps: string[] = [];
+  const groups = cell(row, COL.groups);
+  if (groups) followUps.push(`Add to groups: ${groups}`);
+  const licenses = cell(row, COL.licenseSkus);
+  if (licenses) followUps.push(`Assign licenses: ${licenses}`);
+  const managerUpn = cell(row, COL.managerUpn);
+  if (managerUpn) followUps.push(`Set manager: ${managerUpn}`);
+  if (options.credentialMode === 'temporaryAccessPass') {
+    followUps.push('Issue Temporary Access Pass');
+  }
+  return followUps;
+}
+
+/**
+ * Previews createUsers without creating anything: runs the same existence check and builds
+ * the same POST /users bodies (with the password masked). Returns one preview per row, in row order.
+ */
+export async function previewCreateUsers(
+  rows: unknown[][],
+  session: TokenSession,
+  options: CreateUsersOptions = {}
+): Promise<RequestPreview[]> {
+  const { results, existenceResponses } = await checkExistingUsers(rows, session, options);
+
+  return rows.map((row, i) => {
+    const result = results[i];
+    const response = existenceResponses.get(String(i));
+    const existence = !response
+      ? ''
+      : !isBatchSuccess(response)
+        ? `Check failed: ${getBatchErrorMessage(response)}`
+        : result?.status === 'skipped'
+          ? 'Exists'
+          : 'Not found';
+    if (result) {
+      return emptyRequestPreview(
+        result.status === 'skipped' ? 'skip' : 'error',
+        existence,
+        result.error ?? ''
+      );
+    }
+    const request = createUserRequest(
+      String(i),
+      row,
+      MASKED_PASSWORD,
+      options.tenant ?? DEFAULT_TENANT_CONFIG
+    );
     return {
-      objectId: null,
-      generatedPassword: null,
-      status: 'error',
-      error: toErrorMessage(err),
+      existence,
+      action: 'create',
+      method: request.method,
+      url: request.url,
+      body: formatRequestBody(request.body),
+      followUps: createFollowUps(row, options),
+      note: '',
     };
-  }
+  });
 }
@@ -0,0 +1,150 @@
+/**
+ * Writes the validation issues of a Verify run to an "Issues" sheet: one table row per issue
+ * with a link to the offending cell. Issues of other input sheets are kept, so the Create and
+ * Update issues can be listed side by side; the rows of the verified sheet are replaced.
+ * A passing Verify (or run) removes the rows of the verified sheet, so no stale issues are left.
+ */
+
+import type { VerifyUsersResult } from './verifyCore';
+import { issueTableColumn } from './tableColumns';
+
+const ISSUES_SHEET_NAME = 'Issues';
+const ISSUES_TABLE_NAME = 'VerifyIssues';
+
+const ISSUES_HEADERS = [
+  'Sheet',
+  'Row',
+  'User Principal Name',
+  'Column',
+  'Severity',
+  'Rule',
+  'Message',
+  'Link',
+] as const;
+
+const LINK_COLUMN = ISSUES_HEADERS.length - 1;
+
+/**
+ * Refreshes the Issues sheet with the issues of the verified table; when Verify passed, only removes
+ * the rows of that table. Creates the sheet on first use (not when there is nothing to list).
+ * Call within the same Excel.run as Verify; calls context.sync() at the end.
+ *
+ * @param columns - Table column index per layout column (LoadedTable.columns).
+ * @param userColumn - Layout column that identifies the user (e.g. COL.userPrincipalName).
+ */
+export async function writeIssuesSheet(
+  context: Excel.RequestContext,
+  dataBodyRange: Excel.Range,
+  columns: readonly number[],
+  userColumn: number,
+  result: VerifyUsersResult
+): Promise<void> {
+  const source = dataBodyRange.worksheet;
+  source.load('name');
+  dataBodyRange.load('values');
+  const headerRow = dataBodyRange.getRowsAbove(1);
+  headerRow.load('values');
+  const existingTable = context.workbook.tables.getItemOrNullObject(ISSUES_TABLE_NAME);
+  await context.sync();
+
+  const issues = result.success ? [] : result.issues;
+  let kept: (string | number | boolean)[][] = [];
+  if (!existingTable.isNullObject) {
+    const body = existingTable.getDataBodyRange();
+    body.load('values');
+    await context.sync();
+    kept = (body.values as (string | number | boolean)[][]).filter(
+      (row) => String(row[0] ?? '') !== '' && String(row[0]) !== source.name
+    );
+  } else if (issues.length === 0) {
+    return;
+  }
+
+  const headers = (headerRow.values[0] ?? []).map((h) => String(h ?? ''));
+  const userTableColumn = columns[userColumn]!;
+  const cells = issues.map((issue) => {
+    const column = issueTableColumn(columns, issue.column);
+    const cell = dataBodyRange.getCell(issue.row, column);
+    cell.load(['address', 'rowIndex']);
+    return cell;
+  });
+  await context.sync();
+
+  const rows: (string | number | boolean)[][] = [
+    ...kept,
+    ...issues.map((issue, i) => [
+      source.name,
+      cells[i]!.rowIndex + 1,
+      String(dataBodyRange.values[issue.row]?.[userTableColumn] ?? '').trim(),
+      issue.column === null ? '' : (headers[columns[issue.column]!] ?? ''),
+      issue.severity,
+      issue.rule,
+      issue.message,
+      cells[i]!.address,
+    ]),
+  ];
+
+  // Re-create the sheet so sorting and filters of the previous run do not hide new rows.
+  const worksheets = context.workbook.worksheets;
+  const existingSheet = worksheets.getItemOrNullObject(ISSUES_SHEET_NAME);
+  await context.sync();
+  if (!existingSheet.isNullObject) {
+    existingSheet.delete();
+  }
+
+  const sheet = worksheets.add(ISSUES_SHEET_NAME);
+  sheet.getRange('A1:H1').values = [ISSUES_HEADERS as unknown as string[]];
+  const table = sheet.tables.add('A1:H1', true);
+  table.name = ISSUES_TABLE_NAME;
+
+  sheet.getRange('A:B').format.columnWidth = 70;
+  sheet.getRange('C:C').format.columnWidth = 210;
+  sheet.getRange('D:D').format.columnWidth = 130;
+  sheet.getRange('E:E').format.columnWidth = 70;
+  sheet.getRange('F:F').format.columnWidth = 130;
+  sheet.getRange('G:G').format.columnWidth = 400;
+  sheet.getRange('H:H').format.columnWidth = 130;
+
+  if (rows.length > 0) {
+    table.rows.add(undefined, rows);
+    // Remove the empty row the table is created with
+    table.rows.getItemAt(0).delete();
+    const body = table.getDataBodyRange();
+    rows.forEach((row, i) => {
+      const address = String(row[LINK_COLUMN] ?? '');
+      body.getCell(i, LINK_COLUMN).hyperlink = {
+        documentReference: address,
+        textToDisplay: address,
+      };
+    });
+  }
+
+  await context.sync();
+}
+
+/**
+ * Removes the rows of the verified table from the Issues sheet (Verify passed).
+ * Does nothing when the sheet does not exist. Call within an Excel.run context.
+ */
+export async function clearIssues(
+  context: Excel.RequestContext,
+  dataBodyRange: Excel.Range
+): Promise<void> {
+  const source = dataBodyRange.worksheet;
+  source.load('name');
+  const table = context.workbook.tables.getItemOrNullObject(ISSUES_TABLE_NAME);
+  await context.sync();
+  if (table.isNullObject) return;
+
+  const body = table.getDataBodyRange();
+  body.load('values');
+  await context.sync();
+  // Delete from the bottom so the indices of the remaining rows stay valid.
+  const values = body.values as unknown[][];
+  for (let i = values.length - 1; i >= 0; i--) {
+    if (String(values[i]?.[0] ?? '') === source.name) {
+      table.rows.getItemAt(i).delete();
+    }
+  }
+  await context.sync();
+}
@@ -0,0 +1,38 @@
+/**
+ * Excel helpers for the OffboardUsers table.
+ * Thin wrapper around excelTableHelpers with Offboard-specific sheet/table names.
+ */
+
+import type { VerifyUsersResult } from './verifyCore';
+import {
+  ensureInputAndGetTable,
+  applyVerifyResultToSheet as applyVerifyResultToSheetCore,
+  type TableData,
+} from './excelTableHelpers';
+import { OFFBOARD_TABLE } from './tableColumns';
+
+export type { TableData as OffboardUsersTableData } from './excelTableHelpers';
+export { hasTableData as hasOffboardTableData } from './excelTableHelpers';
+
+/**
+ * Ensures the Offboard sheet is active, loads the OffboardUsers table and its data body values.
+ * Call within Excel.run(context => ...).
+ */
+export function ensureInputAndGetOffboardUsersTable(
+  context: Excel.RequestContext
+): Promise<TableData> {
+  return ensureInputAndGetTable(context, 'Offboard', 'OffboardUsers', OFFBOARD_TABLE);
+}
+
+/**
+ * Applies verify result to the Offboard sheet (cell highlights and notes).
+ * Call within the same Excel.run; calls context.sync() at the end.
+ */
+export function applyOffboardVerifyResultToSheet(
+  context: Excel.RequestContext,
+  dataBodyRange: Excel.Range,
+  columns: readonly number[],
+  result: VerifyUsersResult
+): Promise<void> {
+  return applyVerifyResultToSheetCore(context, dataBodyRange, columns, result);
+}
@@ -0,0 +1,72 @@
+/**
+ * Writes a Preview_<timestamp> sheet with the requests a Create or Update run would send
+ * (see requestPreview.ts). One row per table row.
+ */
+
+import type { RequestPreview } from './requestPreview';
+
+const PREVIEW_HEADERS = [
+  'Run',
+  'Row',
+  'User Principal Name',
+  'Existence Check',
+  'Action',
+  'Method',
+  'URL',
+  'Body',
+  'Follow-up Requests',
+  'Note',
+] as const;
+
+/**
+ * Adds and activates the preview sheet.
+ * Call within an Excel.run context; calls context.sync() at the end.
+ *
+ * @param run - Name of the previewed action, e.g. "Create".
+ * @param upns - User Principal Name per table row (same order as previews).
+ */
+export async function writeRequestPreviewSheet(
+  context: Excel.RequestContext,
+  run: string,
+  upns: string[],
+  previews: RequestPreview[]
+): Promise<void> {
+  const sheetName =
+    'Preview_' +
+    new Date()
+      .toISOString()
+      .slice(0, 19)
+      .replace('T', '_')
+      .replace(/:/g, '-');
+  const sheet = context.workbook.worksheets.add(sheetName);
+  sheet.activate();
+
+  sheet.getRange('A1:J1').values = [PREVIEW_HEADERS as unknown as string[]];
+  const table = sheet.tables.add('A1:J1', true);
+
+  sheet.getRange('A:B').format.columnWidth = 60;
+  sheet.getRange('C:C').format.columnWidth = 210;
+  sheet.getRange('D:D').format.columnWidth = 170;
+  sheet.getRange('E:F').format.columnWidth = 70;
+  sheet.getRange('G:G').format.columnWidth = 260;
+  sheet.getRange('H:H').format.columnWidth = 500;
+  sheet.getRange('I:J').format.columnWidth = 300;
+
+  const rows: (string | number)[][] = previews.map((preview, i) => [
+    run,
+    i + 1,
+    upns[i] ?? '',
+    preview.existence,
+    preview.action,
+    preview.method,
+    preview.url,
+    preview.body,
+    preview.followUps.join('; '),
+    preview.note,
+  ]);
+  if (rows.length > 0) {
+    table.rows.add(undefined, rows);
+  }
+
+  await context.sync();
+}
@@ -0,0 +1,38 @@
+/**
+ * Excel helpers for the ResetPasswordUsers table.
+ * Thin wrapper around excelTableHelpers with Reset Password-specific sheet/table names.
+ */
+
+import type { VerifyUsersResult } from './verifyCore';
+import {
+  ensureInputAndGetTable,
+  applyVerifyResultToSheet as applyVerifyResultToSheetCore,
+  type TableData,
+} from './excelTableHelpers';
+import { RESET_PASSWORD_TABLE } from './tableColumns';
+
+export type { TableData as ResetPasswordUsersTableData } from './excelTableHelpers';
+export { hasTableData as hasResetPasswordTableData } from './excelTableHelpers';
+
+/**
+ * Ensures the Reset Password sheet is active, loads the ResetPasswordUsers table and its data body values.
+ * Call within Excel.run(context => ...).
+ */
+export function ensureInputAndGetResetPasswordUsersTable(
+  context: Excel.RequestContext
+): Promise<TableData> {
+  return ensureInputAndGetTable(context, 'Reset Password', 'ResetPasswordUsers', RESET_PASSWORD_TABLE);
+}
+
+/**
+ * Applies verify result to the Reset Password sheet (cell highlights and notes).
+ * Call within the same Excel.run; calls context.sync() at the end.
+ */
+export function applyResetPasswordVerifyResultToSheet(
+  context: Excel.RequestContext,
+  dataBodyRange: Excel.Range,
+  columns: readonly number[],
+  result: VerifyUsersResult
+): Promise<void> {
+  return applyVerifyResultToSheetCore(context, dataBodyRange, columns, result);
+}
@@ -0,0 +1,42 @@
+/**
+ * Excel helpers for the RestoreUsers table.
+ * Thin wrapper around excelTableHelpers with Restore-specific sheet/table names.
+ */
+
+import { ensureInputAndGetTable, type TableData } from './excelTableHelpers';
+import { RESTORE_TABLE } from './tableColumns';
+
+export type { TableData as RestoreUsersTableData } from './excelTableHelpers';
+export { hasTableData as hasRestoreTableData, getSelectedRowIndices } from './excelTableHelpers';
+
+/**
+ * Ensures the Restore sheet is active, loads the RestoreUsers table and its data body values.
+ * Call within Excel.run(context => ...).
+ */
+export function ensureInputAndGetRestoreUsersTable(
+  context: Excel.RequestContext
+): Promise<TableData> {
+  return ensureInputAndGetTable(context, 'Restore', 'RestoreUsers', RESTORE_TABLE);
+}
+
+/**
+ * Replaces the rows of the freshly initialized RestoreUsers table with the given values
+ * (removes the empty row the table is created with).
+ * Call within an Excel.run context; calls context.sync() at the end.
+ */
+export async function writeRestoreUsersRows(
+  context: Excel.RequestContext,
+  values: string[][]
+): Promise<void> {
+  if (values.length === 0) return;
+  const table = context.workbook.tables.getItem('RestoreUsers');
+  table.rows.load('count');
+  await context.sync();
+
+  const emptyRowCount = table.rows.count;
+  table.rows.add(undefined, values);
+  for (let i = emptyRowCount - 1; i >= 0; i--) {
+    table.rows.getItemAt(i).delete();
+  }
+  await context.sync();
+}
@@ -1,20 +1,42 @@
 /**
- * Shared Excel helpers for user tables (Create and Update).
- * Provides parametric functions for reading table data, applying verify results,
- * writing loaded data, and marking load errors.
+ * Shared Excel helpers for user tables (Create, Update, and Offboard).
+ * Provides parametric functions for reading table data, highlighting cells, applying verify
+ * results, writing loaded data, and marking load errors.
  */
 
-import type { VerifyUsersResult } from './verifyCore';
+import {
+  formatIssues,
+  type IssueSeverity,
+  type ValidationIssue,
+  type VerifyUsersResult,
+} from './verifyCore';
+import {
+  issueTableColumn,
+  resolveTableColumns,
+  toLayoutOrder,
+  toTableOrder,
+  type TableLayout,
+} from './tableColumns';
 
 // ─── Types ───────────────────────────────────────────────────────────
 
-export type TableData =
-  | { noInputTable: true }
-  | { rows: unknown[][]; dataBodyRange: Excel.Range };
+export interface LoadedTable {
+  /**
+   * Row values in layout order (see tableColumns.ts), not in table column order; undefined for
+   * optional columns the table lacks.
+   */
+  rows: unknown[][];
+  dataBodyRange: Excel.Range;
+  /**
+   * Table column index per layout column (ABSENT_COLUMN for a missing optional column); used to
+   * write back to the right cells.
+   */
+  columns: readonly number[];
+}
+
+export type TableData = { noInputTable: true } | LoadedTable;
 
-export function hasTableData(
-  data: TableData
-): data is { rows: unknown[][]; dataBodyRange: Excel.Range } {
+export function hasTableData(data: TableData): data is LoadedTable {
   return !('noInputTable' in data && data.noInputTable);
 }
 
@@ -22,12 +44,14 @@ export function hasTableData(
 
 /**
  * Ensures the given sheet is active (if it exists), loads the named table and its data body values.
- * Call within Excel.run(context => ...).
+ * The columns are resolved by header name; throws TableColumnsError when the headers do not match
+ * the layout. Call within Excel.run(context => ...).
  */
-export async function ensureInputAndGetTable(
+export async function ensureInputAndGetTable<K extends string>(
   context: Excel.RequestContext,
   sheetName: string,
-  tableName: string
+  tableName: string,
+  layout: TableLayout<K>
 ): Promise<TableData> {
   const workbook = context.workbook;
   const worksheets = workbook.worksheets;
@@ -48,149 +72,278 @@ export async function ensureInputAndGetTable(
     return { noInputTable: true };
   }
 
+  const headerRange = table.getHeaderRowRange();
+  headerRange.load('values');
   const dataBodyRange = table.getDataBodyRange();
   dataBodyRange.load('values');
   await context.sync();
 
-  const rows = (dataBodyRange.values ?? []) as unknown[][];
-  return { rows, dataBodyRange };
+  const columns = resolveTableColumns(layout, tableName, headerRange.values[0] ?? []);
+  const rows = ((dataBodyRange.values ?? []) as unknown[][]).map((row) =>
+    toLayoutOrder(row, columns)
+  );
+  return { rows, dataBodyRange, columns };
 }
 
-// ─── Apply verify result ─────────────────────────────────────────────
+// ─── Selection ───────────────────────────────────────────────────────
 
 /**
- * Applies verify result to the sheet: problem row fill color, clear OK rows,
- * delete all notes and add notes for problem rows.
- * Call within the same Excel.run; calls context.sync() at the end.
- *
- * @param getRowProblemFn - Function that returns a human-readable problem description for a row.
+ * Returns the 0-based data row indices of the table rows that intersect the current selection
+ * (all selected areas). Returns an empty array when the selection is on another sheet.
+ * Call within an Excel.run context.
  */
-export async function applyVerifyResultToSheet(
+export async function getSelectedRowIndices(
   context: Excel.RequestContext,
-  dataBodyRange: Excel.Range,
-  rows: unknown[][],
-  result: VerifyUsersResult,
-  getRowProblemFn: (rows: unknown[][], rowIndex: number) => string
-): Promise<void> {
-  const problemSet = new Set(result.problemRowIndices);
+  dataBodyRange: Excel.Range
+): Promise<number[]> {
+  const selection = context.workbook.getSelectedRanges();
+  selection.load('areas/items/rowIndex,areas/items/rowCount');
+  selection.worksheet.load('name');
+  dataBodyRange.load(['rowIndex', 'rowCount']);
+  dataBodyRange.worksheet.load('name');
+  await context.sync();
 
-  if (result.problemRowIndices.length > 0) {
-    for (const rowIndex of result.problemRowIndices) {
-      const rowRange = dataBodyRange.getRow(rowIndex);
-      rowRange.format.fill.color = '#FFF3CD'; // Light amber for problems
-    }
-    for (let i = 0; i < rows.length; i++) {
-      if (!problemSet.has(i)) {
-        dataBodyRange.getRow(i).format.fill.clear();
-      }
-    }
-  } else {
-    dataBodyRange.format.fill.clear();
+  if (selection.worksheet.name !== dataBodyRange.worksheet.name) {
+    return [];
   }
 
-  if (rows.length > 0) {
-    const worksheet = dataBodyRange.worksheet;
-    const firstCells: Excel.Range[] = [];
-    for (let i = 0; i < rows.length; i++) {
-      firstCells.push(dataBodyRange.getRow(i).getCell(0, 0));
+  const indices = new Set<number>();
+  const bodyStart = dataBodyRange.rowIndex;
+  const bodyEnd = bodyStart + dataBodyRange.rowCount;
+  for (const area of selection.areas.items) {
+    const first = Math.max(area.rowIndex, bodyStart);
+    const last = Math.min(area.rowIndex + area.rowCount, bodyEnd);
+    for (let row = first; row < last; row++) {
+      indices.add(row - bodyStart);
     }
+  }
+  return [...indices].sort((a, b) => a - b);
+}
+
+// ─── Cell highlights ─────────────────────────────────────────────────
+
+const ERROR_FILL = '#F8CBAD'; // Light red for errors
+const WARNING_FILL = '#FFF3CD'; // Light amber for warnings
+export const PENDING_CHANGE_FILL = '#DDEBF7'; // Light blue for pending changes (Update)
+
+const HIGHLIGHT_FILLS = [ERROR_FILL, WARNING_FILL, PENDING_CHANGE_FILL];
+
+/** Workbook setting that records the cells the add-in highlighted on a sheet. */
+const highlightsSettingKey = (sheetName: string) => `cellHighlights:${sheetName}`;
+
+/**
+ * Workbook setting that records the cells whose note the add-in created; only these notes are
+ * changed or deleted, notes the user wrote are never touched.
+ */
+const notesSettingKey = (sheetName: string) => `cellHighlightNotes:${sheetName}`;
+
+/** A fill and/or note the add-in applies to a single cell of a table's data body. */
+export interface CellHighlight {
+  /** 0-based row index in the data body. */
+  row: number;
+  /** 0-based column index in the table (not the layout index, see LoadedTable.columns). */
+  column: number;
+  /** Fill color; null for a note without fill. */
+  color: string | null;
+  note: string;
+}
+
+/** Cell address without the sheet name, e.g. "C7". */
+function localAddress(address: string): string {
+  return address.slice(address.lastIndexOf('!') + 1);
+}
+
+/** Reads the highlighted cells and the cells with an add-in note of a sheet. */
+async function readHighlightedCells(
+  context: Excel.RequestContext,
+  worksheet: Excel.Worksheet
+): Promise<{ addresses: string[]; noteAddresses: string[] }> {
+  worksheet.load('name');
+  await context.sync();
+  const settings = context.workbook.settings;
+  const highlights = settings.getItemOrNullObject(highlightsSettingKey(worksheet.name));
+  const notes = settings.getItemOrNullObject(notesSettingKey(worksheet.name));
+  highlights.load('value');
+  notes.load('value');
+  await context.sync();
+  const value = (setting: Excel.Setting) =>
+    setting.isNullObject ? [] : ((setting.value as string[] | null) ?? []);
+  return { addresses: value(highlights), noteAddresses: value(notes) };
+}
+
+/**
+ * Removes the fills and notes the add-in applied to the sheet (see addCellHighlights).
+ * Fills a user changed since are kept; other formatting and the user's notes are not touched.
+ * Call within an Excel.run context; calls context.sync() at the end.
+ */
+export async function clearCellHighlights(
+  context: Excel.RequestContext,
+  worksheet: Excel.Worksheet
+): Promise<void> {
+  const { addresses, noteAddresses } = await readHighlightedCells(context, worksheet);
+  if (addresses.length > 0 || noteAddresses.length > 0) {
+    const cells = addresses.map((address) => {
+      const cell = worksheet.getRange(address);
+      cell.format.fill.load('color');
+      return cell;
+    });
     const notes = worksheet.notes;
     notes.load('items');
     await context.sync();
-
     for (const note of notes.items) {
-      note.delete();
+      note.cellReference.load('address');
     }
+    await context.sync();
 
-    for (const rowIndex of result.problemRowIndices) {
-      const text = getRowProblemFn(rows, rowIndex);
-      const note = notes.add(firstCells[rowIndex], text);
-      note.set({ width: 320, height: 160 });
+    const ownNotes = new Set(noteAddresses);
+    for (const note of notes.items) {
+      if (ownNotes.has(localAddress(note.cellReference.address))) {
+        note.delete();
+      }
+    }
+    for (const cell of cells) {
+      if (HIGHLIGHT_FILLS.includes(cell.format.fill.color.toUpperCase())) {
+        cell.format.fill.clear();
+      }
     }
   }
-
+  context.workbook.settings.add(highlightsSettingKey(worksheet.name), []);
+  context.workbook.settings.add(notesSettingKey(worksheet.name), []);
   await context.sync();
 }
 
-// ─── Write / mark helpers (used by Update Load Data) ─────────────────
-
 /**
- * Writes loaded data values into a single row of a table.
- * Call within an Excel.run context.
+ * Applies fills and notes to single cells and records them, so clearCellHighlights removes them.
+ * A cell that is already highlighted keeps its fill and gets the note appended to the add-in's
+ * note; a note the user added to a cell is kept unchanged (the highlight's note is then not shown).
+ * Call within an Excel.run context; calls context.sync() at the end.
  */
-export async function writeLoadedDataToTable(
+export async function addCellHighlights(
   context: Excel.RequestContext,
   dataBodyRange: Excel.Range,
-  rowIndex: number,
-  values: string[]
+  highlights: CellHighlight[]
 ): Promise<void> {
-  const rowRange = dataBodyRange.getRow(rowIndex);
-  rowRange.values = [values];
-  rowRange.format.fill.clear();
-
-  // Clear any existing note on the first cell of this row
+  if (highlights.length === 0) return;
   const worksheet = dataBodyRange.worksheet;
-  const firstCell = rowRange.getCell(0, 0);
+  const { addresses, noteAddresses } = await readHighlightedCells(context, worksheet);
+  const cells = highlights.map((highlight) => {
+    const cell = dataBodyRange.getCell(highlight.row, highlight.column);
+    cell.load('address');
+    return cell;
+  });
   const notes = worksheet.notes;
-  notes.load('items');
+  notes.load('items/content');
   await context.sync();
-
-  firstCell.load('address');
-  await context.sync();
-
-  const cellAddress = firstCell.address;
   for (const note of notes.items) {
     note.cellReference.load('address');
   }
   await context.sync();
 
-  for (const note of notes.items) {
-    if (note.cellReference.address === cellAddress) {
-      note.delete();
+  const recorded = new Set(addresses);
+  const ownNotes = new Set(noteAddresses);
+  const notesByAddress = new Map(
+    notes.items.map((note) => [localAddress(note.cellReference.address), note])
+  );
+  highlights.forEach((highlight, i) => {
+    const cell = cells[i]!;
+    const address = localAddress(cell.address);
+    const existing = notesByAddress.get(address);
+    if (!recorded.has(address) && highlight.color) {
+      cell.format.fill.color = highlight.color;
     }
-  }
-
+    recorded.add(address);
+    if (!existing) {
+      const note = notes.add(cell, highlight.note);
+      note.set({ width: 320, height: 160 });
+      notesByAddress.set(address, note);
+      ownNotes.add(address);
+    } else if (ownNotes.has(address)) {
+      existing.content = `${existing.content}\n${highlight.note}`;
+    }
+  });
+  context.workbook.settings.add(highlightsSettingKey(worksheet.name), [...recorded]);
+  context.workbook.settings.add(notesSettingKey(worksheet.name), [...ownNotes]);
   await context.sync();
 }
 
+// ─── Apply verify result ─────────────────────────────────────────────
+
+const SEVERITY_RANK: Record<IssueSeverity, number> = { error: 0, warning: 1, info: 2 };
+
 /**
- * Marks a row as having a load error: sets fill color and adds a note with the error message.
- * Call within an Excel.run context.
+ * Applies verify result to the sheet: clears the previous highlights, then highlights each cell
+ * with issues (errors red, warnings amber, info without fill) and attaches the issues as a note.
+ * Issues without a column (or of an absent optional column) go to the first cell of the row.
+ * Call within the same Excel.run; calls context.sync() at the end.
+ *
+ * @param columns - Table column index per layout column (LoadedTable.columns).
  */
-export async function markLoadErrorOnRow(
+export async function applyVerifyResultToSheet(
   context: Excel.RequestContext,
   dataBodyRange: Excel.Range,
-  rowIndex: number,
-  errorMessage: string
+  columns: readonly number[],
+  result: VerifyUsersResult
 ): Promise<void> {
-  const rowRange = dataBodyRange.getRow(rowIndex);
-  rowRange.format.fill.color = '#FFF3CD'; // Light amber
-
-  const firstCell = rowRange.getCell(0, 0);
-  const worksheet = dataBodyRange.worksheet;
-  const notes = worksheet.notes;
-
-  // Remove existing note on this cell first
-  notes.load('items');
-  await context.sync();
-
-  firstCell.load('address');
-  await context.sync();
-
-  const cellAddress = firstCell.address;
-  for (const note of notes.items) {
-    note.cellReference.load('address');
-  }
-  await context.sync();
+  await clearCellHighlights(context, dataBodyRange.worksheet);
 
-  for (const note of notes.items) {
-    if (note.cellReference.address === cellAddress) {
-      note.delete();
-    }
+  const byCell = new Map<string, ValidationIssue[]>();
+  for (const issue of result.issues) {
+    const key = `${issue.row}:${issue.column ?? 0}`;
+    byCell.set(key, [...(byCell.get(key) ?? []), issue]);
   }
+  const highlights: CellHighlight[] = [...byCell.values()].map((issues) => {
+    const sorted = [...issues].sort(
+      (a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity]
+    );
+    const worst = sorted[0]!;
+    return {
+      row: worst.row,
+      column: issueTableColumn(columns, worst.column),
+      color:
+        worst.severity === 'error'
+          ? ERROR_FILL
+          : worst.severity === 'warning'
+            ? WARNING_FILL
+            : null,
+      note: formatIssues(sorted),
+    };
+  });
+  await addCellHighlights(context, dataBodyRange, highlights);
+}
 
-  const note = notes.add(firstCell, errorMessage);
-  note.set({ width: 320, height: 160 });
+// ─── Write / mark helpers (used by Update Load Data) ─────────────────
 
+/**
+ * Writes loaded data values (in layout order) into a single row of a table.
+ * Call within an Excel.run context, after clearCellHighlights.
+ *
+ * @param columns - Table column index per layout column (LoadedTable.columns).
+ */
+export async function writeLoadedDataToTable(
+  context: Excel.RequestContext,
+  dataBodyRange: Excel.Range,
+  columns: readonly number[],
+  rowIndex: number,
+  values: string[]
+): Promise<void> {
+  dataBodyRange.getRow(rowIndex).values = [toTableOrder(values, columns)];
   await context.sync();
 }
+
+/**
+ * Marks a row as having a load error: highlights the key cell and adds a note with the error message.
+ * Call within an Excel.run context, after clearCellHighlights.
+ *
+ * @param column - Table column index of the key that could not be loaded.
+ */
+export function markLoadErrorOnRow(
+  context: Excel.RequestContext,
+  dataBodyRange: Excel.Range,
+  rowIndex: number,
+  errorMessage: string,
+  column = 0
+): Promise<void> {
+  return addCellHighlights(context, dataBodyRange, [
+    { row: rowIndex, column, color: ERROR_FILL, note: errorMessage },
+  ]);
+}
@@ -0,0 +1,43 @@
+/**
+ * Stores the tenant configuration profile (see tenantConfig.ts) in the workbook settings,
+ * so the profile travels with the workbook.
+ */
+
+import { DEFAULT_TENANT_CONFIG, parseTenantConfig, type TenantConfig } from './tenantConfig';
+
+const TENANT_CONFIG_SETTING = 'tenantConfig';
+
+/**
+ * Reads the profile of the workbook; returns DEFAULT_TENANT_CONFIG when none is stored.
+ * Call within an Excel.run context.
+ */
+export async function readTenantConfig(context: Excel.RequestContext): Promise<TenantConfig> {
+  const setting = context.workbook.settings.getItemOrNullObject(TENANT_CONFIG_SETTING);
+  setting.load('value');
+  await context.sync();
+  return setting.isNullObject ? DEFAULT_TENANT_CONFIG : parseTenantConfig(setting.value);
+}
+
+/**
+ * Stores the profile in the workbook. Call within an Excel.run context; calls context.sync() at the end.
+ */
+export async function writeTenantConfig(
+  context: Excel.RequestContext,
+  config: TenantConfig
+): Promise<void> {
+  context.workbook.settings.add(TENANT_CONFIG_SETTING, config);
+  await context.sync();
+}
+
+/**
+ * Removes the stored profile, so the workbook uses DEFAULT_TENANT_CONFIG again.
+ * Call within an Excel.run context; calls context.sync() at the end.
+ */
+export async function clearTenantConfig(context: Excel.RequestContext): Promise<void> {
+  const setting = context.workbook.settings.getItemOrNullObject(TENANT_CONFIG_SETTING);
+  await context.sync();
+  if (!setting.isNullObject) {
+    setting.delete();
+    await context.sync();
+  }
+}
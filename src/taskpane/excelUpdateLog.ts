@@ -0,0 +1,82 @@
+/**
+ * Excel helpers for the Update run log sheets (Update_<timestamp>), used by Undo.
+ * Lists the log sheets and reads the applied changes from their "Changes (JSON)" column.
+ */
+
+import { parseAttributeChanges } from './updateSnapshot';
+import type { UpdateRunEntry } from './undoUpdate';
+
+const UPDATE_LOG_SHEET_PATTERN = /^Update_\d{4}-\d{2}-\d{2}_\d{2}-\d{2}-\d{2}$/;
+
+/** Header of the log column with the applied changes as JSON. */
+export const UPDATE_LOG_CHANGES_JSON_HEADER = 'Changes (JSON)';
+
+/**
+ * Returns the names of all Update run log sheets, newest first.
+ * Call within an Excel.run context.
+ */
+export async function listUpdateLogSheets(context: Excel.RequestContext): Promise<string[]> {
+  const worksheets = context.workbook.worksheets;
+  worksheets.load('items/name');
+  await context.sync();
+  return worksheets.items
+    .map((sheet) => sheet.name)
+    .filter((name) => UPDATE_LOG_SHEET_PATTERN.test(name))
+    .sort()
+    .reverse();
+}
+
+/**
+ * Reads the rows of an Update run log that applied changes.
+ * Returns null when the sheet does not exist or has no log table with a "Changes (JSON)" column
+ * (logs written before undo data was recorded). Rows whose changes cannot be read are returned
+ * with an error, so Undo reports them instead of guessing.
+ * Call within an Excel.run context.
+ */
+export async function readUpdateLogEntries(
+  context: Excel.RequestContext,
+  sheetName: string
+): Promise<UpdateRunEntry[] | null> {
+  const sheet = context.workbook.worksheets.getItemOrNullObject(sheetName);
+  await context.sync();
+  if (sheet.isNullObject) {
+    return null;
+  }
+
+  const tables = sheet.tables;
+  tables.load('items/name');
+  await context.sync();
+  const table = tables.items[0];
+  if (!table) {
+    return null;
+  }
+
+  const headerRange = table.getHeaderRowRange();
+  const bodyRange = table.getDataBodyRange();
+  headerRange.load('values');
+  bodyRange.load('values');
+  await context.sync();
+
+  const headers = (headerRange.values[0] ?? []).map((h) => String(h ?? '').trim());
+  const objectIdCol = headers.indexOf('Object ID');
+  const upnCol = headers.indexOf('User Principal Name');
+  const changesCol = headers.indexOf(UPDATE_LOG_CHANGES_JSON_HEADER);
+  if (objectIdCol < 0 || upnCol < 0 || changesCol < 0) {
+    return null;
+  }
+
+  const entries: UpdateRunEntry[] = [];
+  for (const row of bodyRange.values as unknown[][]) {
+    const objectId = String(row[objectIdCol] ?? '').trim();
+    if (!objectId) continue;
+    const userPrincipalName = String(row[upnCol] ?? '').trim();
+    const parsed = parseAttributeChanges(String(row[changesCol] ?? ''));
+    if ('error' in parsed) {
+      entries.push({ objectId, userPrincipalName, changes: [], error: parsed.error });
+      continue;
+    }
+    if (parsed.changes.length === 0) continue;
+    entries.push({ objectId, userPrincipalName, changes: parsed.changes });
+  }
+  return entries;
+}
@@ -0,0 +1,97 @@
+/**
+ * Persists the Update snapshot (see updateSnapshot.ts) in a hidden "UpdateSnapshot" sheet.
+ * One table row per user: Object ID, load timestamp, the loaded values as JSON, and their fingerprint.
+ */
+
+import {
+  createSnapshotEntry,
+  type UpdateSnapshot,
+  type UpdateSnapshotEntry,
+} from './updateSnapshot';
+
+const SNAPSHOT_SHEET_NAME = 'UpdateSnapshot';
+const SNAPSHOT_TABLE_NAME = 'UpdateSnapshot';
+const SNAPSHOT_HEADERS = ['Object ID', 'Loaded At', 'Values', 'Fingerprint'];
+
+/**
+ * Reads the snapshot; returns an empty snapshot when Load Data has not run yet.
+ * Call within an Excel.run context.
+ */
+export async function readUpdateSnapshot(context: Excel.RequestContext): Promise<UpdateSnapshot> {
+  const snapshot: UpdateSnapshot = new Map();
+  const table = context.workbook.tables.getItemOrNullObject(SNAPSHOT_TABLE_NAME);
+  await context.sync();
+  if (table.isNullObject) {
+    return snapshot;
+  }
+
+  const body = table.getDataBodyRange();
+  body.load('values');
+  await context.sync();
+
+  for (const [objectId, loadedAt, json, fingerprint] of body.values as unknown[][]) {
+    const id = String(objectId ?? '').trim();
+    if (!id) continue;
+    if (!fingerprint) {
+      console.warn(`Ignoring unreadable snapshot entry for ${id}`);
+      continue;
+    }
+    try {
+      const values = JSON.parse(String(json ?? '[]')) as unknown[];
+      const entry = createSnapshotEntry(
+        id,
+        String(loadedAt ?? ''),
+        values.map((v) => String(v ?? ''))
+      );
+      entry.fingerprint = String(fingerprint);
+      snapshot.set(id.toLowerCase(), entry);
+    } catch {
+      console.warn(`Ignoring unreadable snapshot entry for ${id}`);
+    }
+  }
+  return snapshot;
+}
+
+/**
+ * Replaces the stored snapshot. Creates the hidden sheet on first use.
+ * Call within an Excel.run context; calls context.sync() at the end.
+ */
+export async function writeUpdateSnapshot(
+  context: Excel.RequestContext,
+  snapshot: UpdateSnapshot
+): Promise<void> {
+  const worksheets = context.workbook.worksheets;
+  const existingSheet = worksheets.getItemOrNullObject(SNAPSHOT_SHEET_NAME);
+  await context.sync();
+
+  if (!existingSheet.isNullObject) {
+    existingSheet.visibility = Excel.SheetVisibility.visible;
+    existingSheet.delete();
+    await context.sync();
+  }
+
+  const sheet = worksheets.add(SNAPSHOT_SHEET_NAME);
+  // Text format so Object IDs and values are stored exactly as loaded.
+  (sheet.getRange() as unknown as { numberFormat: string }).numberFormat = '@';
+  sheet.getRange('A1:D1').values = [SNAPSHOT_HEADERS];
+  const table = sheet.tables.add('A1:D1', true);
+  table.name = SNAPSHOT_TABLE_NAME;
+
+  const entries: UpdateSnapshotEntry[] = [...snapshot.values()];
+  if (entries.length > 0) {
+    table.rows.add(
+      undefined,
+      entries.map((entry) => [
+        entry.objectId,
+        entry.loadedAt,
+        JSON.stringify(entry.values),
+        entry.fingerprint,
+      ])
+    );
+    // Remove the empty row the table is created with
+    table.rows.getItemAt(0).delete();
+  }
+
+  sheet.visibility = Excel.SheetVisibility.hidden;
+  await context.sync();
+}
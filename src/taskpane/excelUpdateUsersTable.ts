@@ -3,18 +3,25 @@
  * Thin wrapper around excelTableHelpers with Update-specific sheet/table names.
  */
 
-import { getUpdateRowProblemDescription } from './verifyUpdateUsers';
 import type { VerifyUsersResult } from './verifyCore';
+import type { AttributeChange } from './updateSnapshot';
 import {
   ensureInputAndGetTable,
   applyVerifyResultToSheet as applyVerifyResultToSheetCore,
+  addCellHighlights,
+  PENDING_CHANGE_FILL,
   type TableData,
 } from './excelTableHelpers';
+import { UPDATE_TABLE } from './userAttributes';
 
 // Re-export shared types and Update-specific helpers for backward compatibility.
 export type { TableData as UpdateUsersTableData } from './excelTableHelpers';
 export { hasTableData as hasUpdateTableData } from './excelTableHelpers';
-export { writeLoadedDataToTable, markLoadErrorOnRow } from './excelTableHelpers';
+export {
+  writeLoadedDataToTable,
+  markLoadErrorOnRow,
+  clearCellHighlights,
+} from './excelTableHelpers';
 
 /**
  * Ensures the Update sheet is active, loads the UpdateUsers table and its data body values.
@@ -23,24 +30,43 @@ export { writeLoadedDataToTable, markLoadErrorOnRow } from './excelTableHelpers'
 export function ensureInputAndGetUpdateUsersTable(
   context: Excel.RequestContext
 ): Promise<TableData> {
-  return ensureInputAndGetTable(context, 'Update', 'UpdateUsers');
+  return ensureInputAndGetTable(context, 'Update', 'UpdateUsers', UPDATE_TABLE);
 }
 
 /**
- * Applies verify result to the Update sheet.
+ * Applies verify result to the Update sheet (cell highlights and notes).
  * Call within the same Excel.run; calls context.sync() at the end.
  */
 export function applyUpdateVerifyResultToSheet(
   context: Excel.RequestContext,
   dataBodyRange: Excel.Range,
-  rows: unknown[][],
+  columns: readonly number[],
   result: VerifyUsersResult
 ): Promise<void> {
-  return applyVerifyResultToSheetCore(
-    context,
-    dataBodyRange,
-    rows,
-    result,
-    getUpdateRowProblemDescription
+  return applyVerifyResultToSheetCore(context, dataBodyRange, columns, result);
+}
+
+/**
+ * Highlights cells that differ from the loaded values and adds a note with the loaded value to each.
+ * Call after applyUpdateVerifyResultToSheet (which clears the previous highlights) in the same
+ * Excel.run; calls context.sync() at the end.
+ *
+ * @param columns - Table column index per layout column (LoadedTable.columns).
+ * @param rowChanges - Per row: the changed attributes (see getPendingChanges), or null.
+ */
+export function applyPendingChangesToSheet(
+  context: Excel.RequestContext,
+  dataBodyRange: Excel.Range,
+  columns: readonly number[],
+  rowChanges: (AttributeChange[] | null)[]
+): Promise<void> {
+  const highlights = rowChanges.flatMap((changes, rowIndex) =>
+    (changes ?? []).map((change) => ({
+      row: rowIndex,
+      column: columns[change.index]!,
+      color: PENDING_CHANGE_FILL,
+      note: `Loaded value: ${change.oldValue === '' ? '(empty)' : change.oldValue}`,
+    }))
   );
+  return addCellHighlights(context, dataBodyRange, highlights);
 }
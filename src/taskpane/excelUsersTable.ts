@@ -3,13 +3,13 @@
  * Thin wrapper around excelTableHelpers with Create-specific sheet/table names.
  */
 
-import { getRowProblemDescription } from './verifyUsers';
 import type { VerifyUsersResult } from './verifyCore';
 import {
   ensureInputAndGetTable,
   applyVerifyResultToSheet as applyVerifyResultToSheetCore,
   type TableData,
 } from './excelTableHelpers';
+import { CREATE_TABLE } from './userAttributes';
 
 // Re-export shared types for backward compatibility.
 export type { TableData as UsersTableData } from './excelTableHelpers';
@@ -22,24 +22,18 @@ export { hasTableData } from './excelTableHelpers';
 export function ensureInputAndGetUsersTable(
   context: Excel.RequestContext
 ): Promise<TableData> {
-  return ensureInputAndGetTable(context, 'Create', 'CreateUsers');
+  return ensureInputAndGetTable(context, 'Create', 'CreateUsers', CREATE_TABLE);
 }
 
 /**
- * Applies verify result to the Create sheet.
+ * Applies verify result to the Create sheet (cell highlights and notes).
  * Call within the same Excel.run; calls context.sync() at the end.
  */
 export function applyVerifyResultToSheet(
   context: Excel.RequestContext,
   dataBodyRange: Excel.Range,
-  rows: unknown[][],
+  columns: readonly number[],
   result: VerifyUsersResult
 ): Promise<void> {
-  return applyVerifyResultToSheetCore(
-    context,
-    dataBodyRange,
-    rows,
-    result,
-    getRowProblemDescription
-  );
+  return applyVerifyResultToSheetCore(context, dataBodyRange, columns, result);
 }
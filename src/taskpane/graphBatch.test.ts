@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { sendGraphBatch, type GraphBatchRequest } from './graphBatch';
+import { createTokenSession } from './tokenSession';
+
+const realFetch = globalThis.fetch;
+const session = createTokenSession(async () => 'token');
+
+interface SubRequest {
+  id: string;
+  method: string;
+}
+
+/** Replaces fetch with a $batch endpoint that answers every sub-request via `status`. */
+function mockBatch(status: (request: SubRequest, attempt: number) => number): SubRequest[] {
+  const sent: SubRequest[] = [];
+  const attempts = new Map<string, number>();
+  globalThis.fetch = (async (_url: string, init: RequestInit) => {
+    const { requests } = JSON.parse(String(init.body)) as { requests: SubRequest[] };
+    sent.push(...requests);
+    const responses = requests.map((r) => {
+      const attempt = attempts.get(r.id) ?? 0;
+      attempts.set(r.id, attempt + 1);
+      return { id: r.id, status: status(r, attempt), headers: { 'Retry-After': '0' } };
+    });
+    return new Response(JSON.stringify({ responses }), { status: 200 });
+  }) as typeof fetch;
+  return sent;
+}
+
+afterEach(() => {
+  globalThis.fetch = realFetch;
+});
+
+describe('sendGraphBatch', () => {
+  const post: GraphBatchRequest = { id: 'create', method: 'POST', url: '/users', body: {} };
+  const patch: GraphBatchRequest = { id: 'update', method: 'PATCH', url: '/users/a', body: {} };
+
+  test('retries a PATCH on 503', async () => {
+    const sent = mockBatch((_, attempt) => (attempt === 0 ? 503 : 204));
+    const responses = await sendGraphBatch([patch], session);
+
+    expect(sent.map((r) => r.id)).toEqual(['update', 'update']);
+    expect(responses.get('update')).toMatchObject({ status: 204, retries: 1 });
+  });
+
+  test.each([503, 504])('does not retry a POST on %p', async (status) => {
+    const sent = mockBatch(() => status);
+    const responses = await sendGraphBatch([post], session);
+
+    expect(sent.map((r) => r.id)).toEqual(['create']);
+    expect(responses.get('create')).toMatchObject({ status, retries: 0 });
+  });
+
+  test('retries a POST on 429', async () => {
+    const sent = mockBatch((_, attempt) => (attempt === 0 ? 429 : 201));
+    const responses = await sendGraphBatch([post], session);
+
+    expect(sent.map((r) => r.id)).toEqual(['create', 'create']);
+    expect(responses.get('create')).toMatchObject({ status: 201, retries: 1 });
+  });
+
+  test('does not retry a batch of POSTs that failed as a whole with 504', async () => {
+    let calls = 0;
+    globalThis.fetch = (async () => {
+      calls++;
+      return new Response('', { status: 504 });
+    }) as unknown as typeof fetch;
+    const responses = await sendGraphBatch([post], session);
+
+    expect(calls).toBe(1);
+    expect(responses.get('create')?.status).toBe(504);
+  });
+});
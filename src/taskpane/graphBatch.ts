@@ -0,0 +1,204 @@
+/**
+ * JSON batching for Microsoft Graph API calls (POST /$batch).
+ * Packs sub-requests into batches of 20 and maps every sub-response back
+ * to the caller's request id (typically the table row index).
+ * Throttled batches and sub-requests are retried with the same backoff rules as graphFetch.
+ * POST sub-requests are not idempotent, so they are retried only on 429.
+ */
+
+import {
+  GRAPH_BASE_URL,
+  MAX_GRAPH_RETRIES,
+  delay,
+  getGraphErrorMessage,
+  getRetryDelayMs,
+  graphFetch,
+  isRetryableStatus,
+  parseGraphErrorResponse,
+  toErrorMessage,
+  type GraphRequestOptions,
+} from './graphHelpers';
+import type { TokenSession, TokenUsage } from './tokenSession';
+
+export const GRAPH_BATCH_URL = `${GRAPH_BASE_URL}/$batch`;
+
+/** Maximum number of sub-requests Graph accepts in one JSON batch. */
+export const GRAPH_BATCH_MAX_REQUESTS = 20;
+
+export interface GraphBatchRequest {
+  /** Caller-chosen id, unique within one sendGraphBatch call. */
+  id: string;
+  method: 'GET' | 'POST' | 'PATCH' | 'PUT' | 'DELETE';
+  /** URL relative to the Graph version root, e.g. '/users/{id}'. */
+  url: string;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+export interface GraphBatchResponse {
+  id: string;
+  status: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+  /** Number of times the request was retried because of throttling (set by sendGraphBatch). */
+  retries: number;
+  /** Token used for the final attempt, or null if the request could not be sent (set by sendGraphBatch). */
+  token: TokenUsage | null;
+}
+
+/** Returns true for 2xx sub-response status codes. */
+export function isBatchSuccess(response: GraphBatchResponse): boolean {
+  return response.status >= 200 && response.status < 300;
+}
+
+/** Returns a human-readable error message for a failed sub-response. */
+export function getBatchErrorMessage(response: GraphBatchResponse): string {
+  return getGraphErrorMessage(response.body, response.status);
+}
+
+/** Builds a synthetic sub-response for a request that could not be sent or got no answer. */
+function failedResponse(
+  id: string,
+  status: number,
+  message: string,
+  retries = 0,
+  token: TokenUsage | null = null
+): GraphBatchResponse {
+  return { id, status, body: { error: { message } }, retries, token };
+}
+
+/**
+ * POST creates something (user, license assignment, TAP, group membership); after a 503
+ * or 504 it may already have run, so it is retried only when it was throttled (429).
+ */
+function isRetryable(request: GraphBatchRequest, status: number): boolean {
+  return isRetryableStatus(status, request.method === 'POST');
+}
+
+/** Reads a sub-response header case-insensitively. */
+function getHeader(response: GraphBatchResponse, name: string): string | undefined {
+  const key = Object.keys(response.headers ?? {}).find(
+    (k) => k.toLowerCase() === name.toLowerCase()
+  );
+  return key !== undefined ? response.headers?.[key] : undefined;
+}
+
+/**
+ * Sends one JSON batch through graphFetch, so a throttled or unauthorized batch request
+ * is retried as a whole. Those retries are counted on every sub-response of the batch.
+ * A batch with a POST sub-request is retried as a whole only on 429.
+ */
+async function sendBatchChunk(
+  requests: GraphBatchRequest[],
+  session: TokenSession,
+  options: GraphRequestOptions,
+  forceRefresh: boolean
+): Promise<GraphBatchResponse[]> {
+  const payload = {
+    requests: requests.map(({ id, method, url, body, headers }) => ({
+      id,
+      method,
+      url,
+      ...(body !== undefined
+        ? { body, headers: { 'Content-Type': 'application/json', ...headers } }
+        : headers
+          ? { headers }
+          : {}),
+    })),
+  };
+
+  try {
+    const { response, retries, token } = await graphFetch(
+      GRAPH_BATCH_URL,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      },
+      session,
+      { ...options, throttledOnly: requests.some((r) => r.method === 'POST') },
+      forceRefresh
+    );
+
+    if (!response.ok) {
+      const errorMessage = await parseGraphErrorResponse(response);
+      return requests.map((r) =>
+        failedResponse(r.id, response.status, errorMessage, retries, token)
+      );
+    }
+
+    const data = (await response.json()) as {
+      responses?: Omit<GraphBatchResponse, 'retries' | 'token'>[];
+    };
+    const byId = new Map((data.responses ?? []).map((r) => [r.id, r]));
+    return requests.map((r) => {
+      const subResponse = byId.get(r.id);
+      return subResponse
+        ? { ...subResponse, retries, token }
+        : failedResponse(r.id, 0, 'No response returned in batch', retries, token);
+    });
+  } catch (err) {
+    const errorMessage = toErrorMessage(err);
+    return requests.map((r) => failedResponse(r.id, 0, errorMessage));
+  }
+}
+
+/**
+ * Sends the given requests as JSON batches of up to GRAPH_BATCH_MAX_REQUESTS each.
+ * Throttled sub-requests (429, 503, 504; only 429 for POST) are collected and re-sent
+ * after the longest Retry-After of the round, until the request has used up the retry cap.
+ * The backoff of each sub-request grows with its own retry count.
+ * A sub-request that got a 401 is re-sent once with a freshly acquired token.
+ * Never throws: transport or batch-level failures are reported as failed sub-responses,
+ * so every request id is present in the returned map.
+ */
+export async function sendGraphBatch(
+  requests: GraphBatchRequest[],
+  session: TokenSession,
+  options: GraphRequestOptions = {}
+): Promise<Map<string, GraphBatchResponse>> {
+  const maxRetries = options.maxRetries ?? MAX_GRAPH_RETRIES;
+  const responses = new Map<string, GraphBatchResponse>();
+  const retryCounts = new Map<string, number>();
+  const authRetried = new Set<string>();
+  let pending = requests;
+  let forceRefresh = false;
+
+  for (let round = 0; pending.length > 0; round++) {
+    const retryQueue: GraphBatchRequest[] = [];
+    let waitMs = 0;
+    let needsRefresh = false;
+
+    for (let start = 0; start < pending.length; start += GRAPH_BATCH_MAX_REQUESTS) {
+      const chunk = pending.slice(start, start + GRAPH_BATCH_MAX_REQUESTS);
+      const chunkResponses = await sendBatchChunk(chunk, session, options, forceRefresh);
+      forceRefresh = false;
+
+      chunkResponses.forEach((response, i) => {
+        const request = chunk[i]!;
+        const retries = (retryCounts.get(request.id) ?? 0) + response.retries;
+        if (response.status === 401 && !authRetried.has(request.id)) {
+          authRetried.add(request.id);
+          retryCounts.set(request.id, retries);
+          retryQueue.push(request);
+          needsRefresh = true;
+        } else if (isRetryable(request, response.status) && retries < maxRetries) {
+          retryCounts.set(request.id, retries + 1);
+          retryQueue.push(request);
+          waitMs = Math.max(waitMs, getRetryDelayMs(getHeader(response, 'Retry-After'), retries));
+        } else {
+          responses.set(request.id, { ...response, retries });
+        }
+      });
+    }
+
+    if (waitMs > 0) {
+      options.onThrottle?.(waitMs, round + 1);
+      await delay(waitMs);
+    }
+    forceRefresh = needsRefresh;
+    pending = retryQueue;
+  }
+
+  return responses;
+}
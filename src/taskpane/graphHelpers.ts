@@ -1,9 +1,12 @@
 /**
  * Shared helpers for Microsoft Graph API calls.
- * Used by createUser, updateUser, and loadUsers.
+ * Used by createUser, updateUser, loadUsers, and graphBatch.
  */
 
-export const GRAPH_USERS_URL = 'https://graph.microsoft.com/v1.0/users';
+import type { TokenSession, TokenUsage } from './tokenSession';
+
+export const GRAPH_BASE_URL = 'https://graph.microsoft.com/v1.0';
+export const GRAPH_USERS_URL = `${GRAPH_BASE_URL}/users`;
 
 /** Reads a cell value from a row as a trimmed string. */
 export function cell(row: unknown[], index: number): string {
@@ -35,7 +38,138 @@ export async function parseGraphErrorResponse(
   }
 }
 
+/**
+ * Extracts a human-readable message from an already parsed Graph error body
+ * (e.g. the body of a $batch sub-response).
+ */
+export function getGraphErrorMessage(body: unknown, status: number): string {
+  if (typeof body === 'string') {
+    return body || `HTTP ${status}`;
+  }
+  const errJson = body as { error?: { message?: string } } | null | undefined;
+  return errJson?.error?.message || `HTTP ${status}`;
+}
+
+/** Escapes a value for use inside a single-quoted OData string literal. */
+export function escapeODataString(value: string): string {
+  return value.replace(/'/g, "''");
+}
+
 /** Converts an unknown error to a string message. */
 export function toErrorMessage(err: unknown): string {
   return err instanceof Error ? err.message : String(err);
 }
+
+// ─── Throttling / retry ──────────────────────────────────────────────
+
+/** Maximum number of retries for a throttled request before giving up. */
+export const MAX_GRAPH_RETRIES = 5;
+
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 60_000;
+
+/** HTTP status codes that indicate throttling or a transient service problem. */
+const RETRYABLE_STATUS_CODES: ReadonlySet<number> = new Set([429, 503, 504]);
+
+/** Status code of a request that was throttled before it ran. */
+const THROTTLED_STATUS = 429;
+
+export interface GraphRequestOptions {
+  /** Called before waiting for throttled requests to be retried (e.g. to show a status in the task pane). */
+  onThrottle?: (waitMs: number, attempt: number) => void;
+  /** Overrides MAX_GRAPH_RETRIES. */
+  maxRetries?: number;
+  /**
+   * Retry only on 429. For requests that must not run twice: after a 503 or 504 the
+   * request may already have been carried out.
+   */
+  throttledOnly?: boolean;
+}
+
+export function isRetryableStatus(status: number, throttledOnly = false): boolean {
+  return throttledOnly ? status === THROTTLED_STATUS : RETRYABLE_STATUS_CODES.has(status);
+}
+
+/**
+ * Returns how long to wait before the next retry.
+ * Honours Retry-After (seconds or HTTP date); otherwise uses exponential backoff
+ * with full jitter. The result is capped at MAX_RETRY_DELAY_MS.
+ */
+export function getRetryDelayMs(
+  retryAfter: string | null | undefined,
+  attempt: number
+): number {
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds) && seconds >= 0) {
+      return Math.min(seconds * 1000, MAX_RETRY_DELAY_MS);
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.min(Math.max(date - Date.now(), 0), MAX_RETRY_DELAY_MS);
+    }
+  }
+  const ceiling = Math.min(BASE_RETRY_DELAY_MS * 2 ** attempt, MAX_RETRY_DELAY_MS);
+  return Math.round(Math.random() * ceiling);
+}
+
+/** Task pane status message shown while waiting for a throttled request. */
+export function formatThrottleStatus(waitMs: number, attempt: number): string {
+  return `Waiting for throttling – retrying in ${Math.ceil(waitMs / 1000)} s (retry ${attempt})…`;
+}
+
+export function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export interface GraphFetchResult {
+  response: Response;
+  /** Number of retries that were needed (0 if the first attempt was not throttled). */
+  retries: number;
+  /** Token used for the final attempt. */
+  token: TokenUsage;
+}
+
+/**
+ * fetch() wrapper for Graph requests.
+ * Gets a token from the session before every attempt and sets the Authorization header.
+ * A 401 is retried once with a freshly acquired token; throttled requests (429, 503, 504,
+ * or only 429 with options.throttledOnly) are retried up to the retry cap.
+ * The last response is returned as-is.
+ *
+ * @param forceRefresh - Acquire a fresh token for the first attempt (e.g. after a 401 in a $batch).
+ */
+export async function graphFetch(
+  url: string,
+  init: RequestInit,
+  session: TokenSession,
+  options: GraphRequestOptions = {},
+  forceRefresh = false
+): Promise<GraphFetchResult> {
+  const maxRetries = options.maxRetries ?? MAX_GRAPH_RETRIES;
+  let retries = 0;
+  let refreshToken = forceRefresh;
+  let authRetried = forceRefresh;
+
+  for (;;) {
+    const { accessToken, ...token } = await session.getToken(refreshToken);
+    refreshToken = false;
+
+    const headers = new Headers(init.headers);
+    headers.set('Authorization', `Bearer ${accessToken}`);
+    const response = await fetch(url, { ...init, headers });
+
+    if (response.status === 401 && !authRetried) {
+      authRetried = true;
+      refreshToken = true;
+      continue;
+    }
+    if (!isRetryableStatus(response.status, options.throttledOnly) || retries >= maxRetries) {
+      return { response, retries, token };
+    }
+    const waitMs = getRetryDelayMs(response.headers.get('Retry-After'), retries);
+    retries++;
+    options.onThrottle?.(waitMs, retries);
+    await delay(waitMs);
+  }
+}
@@ -0,0 +1,240 @@
+/**
+ * Group assignment for the CreateUsers "Groups" column.
+ * Resolves semicolon-separated group names or IDs against Graph (used by Verify)
+ * and adds created users as members (POST /groups/{id}/members/$ref).
+ */
+
+import { GRAPH_BASE_URL, escapeODataString, type GraphRequestOptions } from './graphHelpers';
+import {
+  getBatchErrorMessage,
+  isBatchSuccess,
+  sendGraphBatch,
+  type GraphBatchRequest,
+} from './graphBatch';
+import type { TokenSession } from './tokenSession';
+import { rowIssue, type RowIssue, type RowIssues } from './verifyCore';
+
+const GROUP_SEPARATOR = ';';
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const GROUP_SELECT_FIELDS = [
+  'id',
+  'displayName',
+  'groupTypes',
+  'mailEnabled',
+  'securityEnabled',
+  'onPremisesSyncEnabled',
+].join(',');
+
+export interface ResolvedGroup {
+  id: string;
+  displayName: string;
+}
+
+/** Resolution per group reference, keyed by the lower-cased reference. */
+export type GroupResolution = Map<string, ResolvedGroup | { error: string }>;
+
+export interface GroupCheck {
+  resolution: GroupResolution;
+  /** Issues of rows with unknown, ambiguous, or unmanageable groups (without column). */
+  rowIssues: RowIssues;
+}
+
+export interface GroupMembershipResult {
+  /** Group reference as written in the table. */
+  group: string;
+  status: 'added' | 'error';
+  error?: string;
+}
+
+export interface GraphGroup {
+  id?: string;
+  displayName?: string | null;
+  groupTypes?: string[] | null;
+  mailEnabled?: boolean | null;
+  securityEnabled?: boolean | null;
+  onPremisesSyncEnabled?: boolean | null;
+}
+
+/** Splits a Groups cell into trimmed, de-duplicated group references. */
+export function parseGroupRefs(value: string): string[] {
+  const refs = new Map<string, string>();
+  for (const part of value.split(GROUP_SEPARATOR)) {
+    const ref = part.trim();
+    if (ref && !refs.has(ref.toLowerCase())) {
+      refs.set(ref.toLowerCase(), ref);
+    }
+  }
+  return [...refs.values()];
+}
+
+/**
+ * Returns why members of the group cannot be managed through Graph, or null if they can.
+ * Graph cannot change membership of dynamic, on-premises synced, or mail-enabled
+ * non-Microsoft 365 groups (distribution lists and mail-enabled security groups).
+ */
+export function getUnmanageableReason(group: GraphGroup): string | null {
+  const groupTypes = group.groupTypes ?? [];
+  if (groupTypes.includes('DynamicMembership')) {
+    return 'has dynamic membership';
+  }
+  if (group.onPremisesSyncEnabled) {
+    return 'is synchronized from on-premises';
+  }
+  if (group.mailEnabled && !groupTypes.includes('Unified')) {
+    return 'is a distribution list or mail-enabled security group (manage it in Exchange)';
+  }
+  return null;
+}
+
+function resolveGroupFromResponse(
+  ref: string,
+  groups: GraphGroup[]
+): ResolvedGroup | { error: string } {
+  if (groups.length === 0) {
+    return { error: `Group '${ref}' not found` };
+  }
+  if (groups.length > 1) {
+    return { error: `Group '${ref}' is ambiguous (${groups.length} groups with this name)` };
+  }
+  const group = groups[0]!;
+  const reason = getUnmanageableReason(group);
+  if (reason) {
+    return { error: `Group '${ref}' ${reason}` };
+  }
+  return { id: group.id ?? '', displayName: group.displayName ?? ref };
+}
+
+/**
+ * Resolves the group references of all rows against Graph.
+ * IDs are looked up directly, names by exact displayName match.
+ * Does not call Graph when no row has groups.
+ *
+ * @param groupCells - Groups cell value per table row.
+ */
+export async function checkGroups(
+  groupCells: string[],
+  session: TokenSession,
+  options: GraphRequestOptions = {}
+): Promise<GroupCheck> {
+  const refs = new Map<string, string>();
+  for (const value of groupCells) {
+    for (const ref of parseGroupRefs(value)) {
+      refs.set(ref.toLowerCase(), ref);
+    }
+  }
+
+  const keys = [...refs.keys()];
+  const requests: GraphBatchRequest[] = keys.map((key, i) => {
+    const ref = refs.get(key)!;
+    return UUID_REGEX.test(ref)
+      ? {
+          id: String(i),
+          method: 'GET',
+          url: `/groups/${encodeURIComponent(ref)}?$select=${GROUP_SELECT_FIELDS}`,
+        }
+      : {
+          id: String(i),
+          method: 'GET',
+          url:
+            `/groups?$filter=${encodeURIComponent(`displayName eq '${escapeODataString(ref)}'`)}` +
+            `&$select=${GROUP_SELECT_FIELDS}&$top=2`,
+        };
+  });
+
+  const resolution: GroupResolution = new Map();
+  const responses = await sendGraphBatch(requests, session, options);
+  for (const [id, response] of responses) {
+    const key = keys[Number(id)]!;
+    const ref = refs.get(key)!;
+    if (response.status === 404) {
+      resolution.set(key, { error: `Group '${ref}' not found` });
+    } else if (!isBatchSuccess(response)) {
+      resolution.set(key, {
+        error: `Group '${ref}' could not be resolved: ${getBatchErrorMessage(response)}`,
+      });
+    } else {
+      const body = response.body as GraphGroup & { value?: GraphGroup[] };
+      const groups = Array.isArray(body.value) ? body.value : [body];
+      resolution.set(key, resolveGroupFromResponse(ref, groups));
+    }
+  }
+
+  const rowIssues = new Map<number, RowIssue[]>();
+  groupCells.forEach((value, i) => {
+    const issues: RowIssue[] = [];
+    for (const ref of parseGroupRefs(value)) {
+      const resolved = resolution.get(ref.toLowerCase());
+      if (resolved && 'error' in resolved) {
+        issues.push(rowIssue(null, 'group-unresolved', `Groups: ${resolved.error}`));
+      }
+    }
+    if (issues.length > 0) {
+      rowIssues.set(i, issues);
+    }
+  });
+
+  return { resolution, rowIssues };
+}
+
+/**
+ * Adds users to their groups using $batch requests.
+ *
+ * @param members - Per row: the created user's object ID (null if not created) and the Groups cell value.
+ * @returns Per row (same order): one result per group reference.
+ */
+export async function addGroupMemberships(
+  members: { objectId: string | null; groups: string }[],
+  resolution: GroupResolution,
+  session: TokenSession,
+  options: GraphRequestOptions = {}
+): Promise<{ results: GroupMembershipResult[]; retries: number }[]> {
+  const rowResults = members.map(({ objectId, groups }) => ({
+    results: (objectId ? parseGroupRefs(groups) : []).map(
+      (group): GroupMembershipResult => ({ group, status: 'error', error: 'No response received' })
+    ),
+    retries: 0,
+  }));
+
+  const requests: GraphBatchRequest[] = [];
+  rowResults.forEach(({ results }, row) => {
+    results.forEach((result, slot) => {
+      const resolved = resolution.get(result.group.toLowerCase());
+      if (!resolved || 'error' in resolved) {
+        result.error = resolved?.error ?? 'Group was not resolved';
+        return;
+      }
+      requests.push({
+        id: `${row}:${slot}`,
+        method: 'POST',
+        url: `/groups/${encodeURIComponent(resolved.id)}/members/$ref`,
+        body: { '@odata.id': `${GRAPH_BASE_URL}/directoryObjects/${members[row]!.objectId}` },
+      });
+    });
+  });
+
+  const responses = await sendGraphBatch(requests, session, options);
+  for (const [id, response] of responses) {
+    const [row, slot] = id.split(':').map(Number) as [number, number];
+    const rowResult = rowResults[row]!;
+    const result = rowResult.results[slot]!;
+    rowResult.retries += response.retries;
+    if (isBatchSuccess(response)) {
+      result.status = 'added';
+      delete result.error;
+    } else {
+      result.error = getBatchErrorMessage(response);
+    }
+  }
+
+  return rowResults;
+}
+
+/** Formats group results for the Create log, e.g. "Sales: added; HR: error (...)". */
+export function formatGroupMembershipResults(results: GroupMembershipResult[]): string {
+  return results
+    .map((r) => (r.status === 'added' ? `${r.group}: added` : `${r.group}: error (${r.error})`))
+    .join('; ');
+}
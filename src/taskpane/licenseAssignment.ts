@@ -0,0 +1,222 @@
+/**
+ * License assignment for the CreateUsers "License SKUs" column.
+ * Checks SKUs and free seats against GET /subscribedSkus (used by Verify)
+ * and assigns licenses to created users (POST /users/{id}/assignLicense).
+ */
+
+import {
+  GRAPH_BASE_URL,
+  graphFetch,
+  parseGraphErrorResponse,
+  toErrorMessage,
+  type GraphRequestOptions,
+} from './graphHelpers';
+import {
+  getBatchErrorMessage,
+  isBatchSuccess,
+  sendGraphBatch,
+  type GraphBatchRequest,
+} from './graphBatch';
+import type { TokenSession } from './tokenSession';
+import { rowIssue, type ExternalFindings, type RowIssue } from './verifyCore';
+
+const SKU_SEPARATOR = ';';
+
+export interface SubscribedSku {
+  skuId: string;
+  skuPartNumber: string;
+  /** Enabled prepaid units minus consumed units. */
+  availableUnits: number;
+}
+
+/** Resolution per SKU reference (part number or SKU ID), keyed by the lower-cased reference. */
+export type SkuResolution = Map<string, SubscribedSku | { error: string }>;
+
+export interface LicenseCheck extends ExternalFindings {
+  resolution: SkuResolution;
+}
+
+export interface LicenseAssignmentResult {
+  status: 'assigned' | 'error';
+  /** SKU part numbers that were requested. */
+  skus: string[];
+  error?: string;
+}
+
+interface GraphSubscribedSku {
+  skuId?: string;
+  skuPartNumber?: string;
+  consumedUnits?: number;
+  prepaidUnits?: { enabled?: number } | null;
+}
+
+/** Splits a License SKUs cell into trimmed, de-duplicated SKU references. */
+export function parseSkuRefs(value: string): string[] {
+  const refs = new Map<string, string>();
+  for (const part of value.split(SKU_SEPARATOR)) {
+    const ref = part.trim();
+    if (ref && !refs.has(ref.toLowerCase())) {
+      refs.set(ref.toLowerCase(), ref);
+    }
+  }
+  return [...refs.values()];
+}
+
+/** Loads the tenant's subscribed SKUs with their free seats. */
+export async function loadSubscribedSkus(
+  session: TokenSession,
+  options: GraphRequestOptions
+): Promise<SubscribedSku[]> {
+  const { response } = await graphFetch(
+    `${GRAPH_BASE_URL}/subscribedSkus?$select=skuId,skuPartNumber,consumedUnits,prepaidUnits`,
+    { method: 'GET' },
+    session,
+    options
+  );
+  if (!response.ok) {
+    throw new Error(await parseGraphErrorResponse(response));
+  }
+  const data = (await response.json()) as { value?: GraphSubscribedSku[] };
+  return (data.value ?? []).map((sku) => ({
+    skuId: sku.skuId ?? '',
+    skuPartNumber: sku.skuPartNumber ?? '',
+    availableUnits: (sku.prepaidUnits?.enabled ?? 0) - (sku.consumedUnits ?? 0),
+  }));
+}
+
+/**
+ * Checks the License SKUs of all rows against the tenant's subscriptions.
+ * Unknown SKUs are row errors; a SKU that needs more seats than are free is a warning.
+ * Does not call Graph when no row has SKUs.
+ *
+ * @param licenseCells - License SKUs cell value per table row.
+ */
+export async function checkLicenses(
+  licenseCells: string[],
+  session: TokenSession,
+  options: GraphRequestOptions = {}
+): Promise<LicenseCheck> {
+  const resolution: SkuResolution = new Map();
+  const rowIssues = new Map<number, RowIssue[]>();
+  const warnings: string[] = [];
+
+  const rowRefs = licenseCells.map(parseSkuRefs);
+  if (rowRefs.every((refs) => refs.length === 0)) {
+    return { resolution, rowIssues, warnings };
+  }
+
+  let skus: SubscribedSku[];
+  try {
+    skus = await loadSubscribedSkus(session, options);
+  } catch (err) {
+    const message = `License SKUs could not be checked: ${toErrorMessage(err)}`;
+    rowRefs.forEach((refs, i) => {
+      if (refs.length > 0) rowIssues.set(i, [rowIssue(null, 'license-check-failed', message)]);
+    });
+    return { resolution, rowIssues, warnings };
+  }
+
+  const seatsNeeded = new Map<SubscribedSku, number>();
+  rowRefs.forEach((refs, i) => {
+    const issues: RowIssue[] = [];
+    for (const ref of refs) {
+      const key = ref.toLowerCase();
+      const sku = skus.find(
+        (s) => s.skuPartNumber.toLowerCase() === key || s.skuId.toLowerCase() === key
+      );
+      if (!sku) {
+        resolution.set(key, { error: `License SKU '${ref}' is not subscribed in this tenant` });
+        issues.push(
+          rowIssue(
+            null,
+            'license-not-subscribed',
+            `License SKUs: '${ref}' is not subscribed in this tenant`
+          )
+        );
+        continue;
+      }
+      resolution.set(key, sku);
+      seatsNeeded.set(sku, (seatsNeeded.get(sku) ?? 0) + 1);
+    }
+    if (issues.length > 0) rowIssues.set(i, issues);
+  });
+
+  for (const [sku, needed] of seatsNeeded) {
+    if (needed > sku.availableUnits) {
+      warnings.push(
+        `License ${sku.skuPartNumber}: ${needed} seats needed, ${Math.max(sku.availableUnits, 0)} free`
+      );
+    }
+  }
+
+  return { resolution, rowIssues, warnings };
+}
+
+/**
+ * Assigns licenses to created users using $batch assignLicense requests.
+ *
+ * @param assignments - Per row: the created user's object ID (null if not created) and the License SKUs cell value.
+ * @returns Per row (same order): the assignment result, or null when there was nothing to assign.
+ */
+export async function assignLicenses(
+  assignments: { objectId: string | null; licenses: string }[],
+  resolution: SkuResolution,
+  session: TokenSession,
+  options: GraphRequestOptions = {}
+): Promise<{ result: LicenseAssignmentResult | null; retries: number }[]> {
+  const rowResults = assignments.map(() => ({
+    result: null as LicenseAssignmentResult | null,
+    retries: 0,
+  }));
+
+  const requests: GraphBatchRequest[] = [];
+  assignments.forEach(({ objectId, licenses }, i) => {
+    const refs = parseSkuRefs(licenses);
+    if (!objectId || refs.length === 0) return;
+
+    const skus: SubscribedSku[] = [];
+    for (const ref of refs) {
+      const resolved = resolution.get(ref.toLowerCase());
+      if (!resolved || 'error' in resolved) {
+        rowResults[i]!.result = {
+          status: 'error',
+          skus: refs,
+          error: resolved?.error ?? `License SKU '${ref}' was not resolved`,
+        };
+        return;
+      }
+      skus.push(resolved);
+    }
+
+    rowResults[i]!.result = { status: 'error', skus: skus.map((s) => s.skuPartNumber), error: 'No response received' };
+    requests.push({
+      id: String(i),
+      method: 'POST',
+      url: `/users/${encodeURIComponent(objectId)}/assignLicense`,
+      body: {
+        addLicenses: skus.map((s) => ({ skuId: s.skuId, disabledPlans: [] })),
+        removeLicenses: [],
+      },
+    });
+  });
+
+  const responses = await sendGraphBatch(requests, session, options);
+  for (const [id, response] of responses) {
+    const rowResult = rowResults[Number(id)]!;
+    const skus = rowResult.result?.skus ?? [];
+    rowResult.retries = response.retries;
+    rowResult.result = isBatchSuccess(response)
+      ? { status: 'assigned', skus }
+      : { status: 'error', skus, error: getBatchErrorMessage(response) };
+  }
+
+  return rowResults;
+}
+
+/** Formats a license result for the Create log, e.g. "assigned: ENTERPRISEPACK". */
+export function formatLicenseAssignmentResult(result: LicenseAssignmentResult | null): string {
+  if (!result) return '';
+  return result.status === 'assigned'
+    ? `assigned: ${result.skus.join(', ')}`
+    : `error (${result.error})`;
+}
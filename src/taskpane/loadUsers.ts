@@ -1,38 +1,25 @@
 /**
- * Load user data from Microsoft Graph API by User Principal Name.
- * Used by the Update flow to populate the UpdateUsers table with current data.
+ * Load user data from Microsoft Graph API by User Principal Name or Object ID (sent through $batch).
+ * Used by the Update flow to populate the UpdateUsers table with current data
+ * and to re-read users before updating them.
  */
 
+import type { GraphRequestOptions } from './graphHelpers';
 import {
-  GRAPH_USERS_URL,
-  parseGraphErrorResponse,
-  toErrorMessage,
-} from './graphHelpers';
+  getBatchErrorMessage,
+  isBatchSuccess,
+  sendGraphBatch,
+  type GraphBatchRequest,
+} from './graphBatch';
+import type { TokenSession } from './tokenSession';
+import { graphUserToValues, loadSelectFields, type UserAttributeKey } from './userAttributes';
+import { DEFAULT_TENANT_CONFIG, type TenantConfig } from './tenantConfig';
 
-const GRAPH_SELECT_FIELDS = [
-  'id',
-  'mail',
-  'employeeId',
-  'onPremisesExtensionAttributes',
-  'givenName',
-  'surname',
-  'displayName',
-  'country',
-  'city',
-  'jobTitle',
-  'officeLocation',
-  'streetAddress',
-  'state',
-  'postalCode',
-  'businessPhones',
-  'mobilePhone',
-  'companyName',
-  'department',
-].join(',');
+const GRAPH_EXPAND_MANAGER = 'manager($select=userPrincipalName)';
 
 export interface LoadUserResult {
   success: true;
-  /** Column values in UpdateUsers table order (Object ID first, then the rest). */
+  /** Column values in UPDATE_TABLE layout order (Object ID first, then the rest). */
   values: string[];
 }
 
@@ -43,85 +30,75 @@ export interface LoadUserError {
 
 export type LoadUserOutcome = LoadUserResult | LoadUserError;
 
-interface GraphUserResponse {
-  id?: string;
-  mail?: string | null;
-  employeeId?: string | null;
-  onPremisesExtensionAttributes?: {
-    extensionAttribute14?: string | null;
-    extensionAttribute15?: string | null;
-  } | null;
-  givenName?: string | null;
-  surname?: string | null;
-  displayName?: string | null;
-  country?: string | null;
-  city?: string | null;
-  jobTitle?: string | null;
-  officeLocation?: string | null;
-  streetAddress?: string | null;
-  state?: string | null;
-  postalCode?: string | null;
-  businessPhones?: string[] | null;
-  mobilePhone?: string | null;
-  companyName?: string | null;
-  department?: string | null;
+export interface LoadUsersOptions extends GraphRequestOptions {
+  /** Tenant profile (targets of the custom columns). Defaults to DEFAULT_TENANT_CONFIG. */
+  tenant?: TenantConfig;
+  /**
+   * Attributes in use (see attributeScopes); attributes that need an extra permission are only
+   * loaded when in use. Defaults to all.
+   */
+  keys?: readonly UserAttributeKey[];
 }
 
 /**
- * Loads a user from Graph by UPN and maps the result to UpdateUsers table columns.
- * Returns column values in table order: [ObjectID, UPN, Mail, BMS ID, Local HR ID, SN Ticket ID, ...].
+ * Loads users by UPN or Object ID (GET /users/{key} accepts both) and maps them to table values.
+ * Empty keys get an error outcome with emptyKeyError.
  */
-export async function loadUserByUpn(
-  upn: string,
-  accessToken: string
-): Promise<LoadUserOutcome> {
-  if (!upn) {
-    return { success: false, error: 'User Principal Name is empty' };
-  }
+async function loadUsers(
+  keys: string[],
+  emptyKeyError: string,
+  session: TokenSession,
+  options: LoadUsersOptions
+): Promise<LoadUserOutcome[]> {
+  const tenant = options.tenant ?? DEFAULT_TENANT_CONFIG;
+  const selectFields = loadSelectFields(tenant, options.keys).join(',');
+  const outcomes: (LoadUserOutcome | null)[] = keys.map((key) =>
+    key ? null : { success: false, error: emptyKeyError }
+  );
 
-  try {
-    const url = `${GRAPH_USERS_URL}/${encodeURIComponent(upn)}?$select=${GRAPH_SELECT_FIELDS}`;
-    const response = await fetch(url, {
+  const requests: GraphBatchRequest[] = [];
+  keys.forEach((key, i) => {
+    if (outcomes[i] !== null) return;
+    requests.push({
+      id: String(i),
       method: 'GET',
-      headers: { Authorization: `Bearer ${accessToken}` },
+      url:
+        `/users/${encodeURIComponent(key)}?$select=${selectFields}` +
+        `&$expand=${GRAPH_EXPAND_MANAGER}`,
     });
+  });
 
-    if (!response.ok) {
-      const errorMessage = await parseGraphErrorResponse(response);
-      return { success: false, error: errorMessage };
-    }
-
-    const user = (await response.json()) as GraphUserResponse;
-    const s = (v: string | null | undefined): string =>
-      v != null ? String(v) : '';
+  const responses = await sendGraphBatch(requests, session, options);
+  for (const [id, response] of responses) {
+    outcomes[Number(id)] = isBatchSuccess(response)
+      ? { success: true, values: graphUserToValues(response.body, tenant) }
+      : { success: false, error: getBatchErrorMessage(response) };
+  }
 
-    const extAttrs = user.onPremisesExtensionAttributes;
+  return outcomes.map((o) => o ?? { success: false, error: 'No response received' });
+}
 
-    const values: string[] = [
-      s(user.id),                                    // Object ID
-      upn,                                           // User Principal Name (keep original)
-      s(user.mail),                                  // Mail
-      s(user.employeeId),                            // BMS ID
-      s(extAttrs?.extensionAttribute14),             // Local HR ID
-      s(extAttrs?.extensionAttribute15),             // SN Ticket ID
-      s(user.givenName),                             // First Name
-      s(user.surname),                               // Last Name
-      s(user.displayName),                           // Display Name
-      s(user.country),                               // Country
-      s(user.city),                                  // City
-      s(user.jobTitle),                              // Job Title
-      s(user.officeLocation),                        // Office Location
-      s(user.streetAddress),                         // Street Address
-      s(user.state),                                 // State
-      s(user.postalCode),                            // Postal Code
-      user.businessPhones?.[0] ?? '',                // Business Phone
-      s(user.mobilePhone),                           // Mobile Phone
-      s(user.companyName),                           // Company Name
-      s(user.department),                            // Department
-    ];
+/**
+ * Loads users from Graph by UPN using $batch requests and maps each result to UpdateUsers table columns.
+ * Returns one outcome per UPN, in input order. Values are in UPDATE_TABLE layout order:
+ * [ObjectID, UPN, Mail, BMS ID, Local HR ID, SN Ticket ID, ...]; the UPN is returned as stored in Entra ID.
+ */
+export async function loadUsersByUpn(
+  upns: string[],
+  session: TokenSession,
+  options: LoadUsersOptions = {}
+): Promise<LoadUserOutcome[]> {
+  return loadUsers(upns, 'User Principal Name is empty', session, options);
+}
 
-    return { success: true, values };
-  } catch (err) {
-    return { success: false, error: toErrorMessage(err) };
-  }
+/**
+ * Loads users by Object ID, with the same values as loadUsersByUpn.
+ * Update uses it to re-read users right before patching them.
+ */
+export async function loadUsersByObjectId(
+  objectIds: string[],
+  session: TokenSession,
+  options: LoadUsersOptions = {}
+): Promise<LoadUserOutcome[]> {
+  return loadUsers(objectIds, 'Object ID is empty', session, options);
 }
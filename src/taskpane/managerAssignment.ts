@@ -0,0 +1,165 @@
+/**
+ * Manager assignment for the "Manager UPN" column of the CreateUsers and UpdateUsers tables.
+ * Resolves managers to object IDs (used by Verify) and sets the relationship
+ * with PUT /users/{id}/manager/$ref (or removes it with DELETE).
+ */
+
+import { GRAPH_BASE_URL, type GraphRequestOptions } from './graphHelpers';
+import {
+  getBatchErrorMessage,
+  isBatchSuccess,
+  sendGraphBatch,
+  type GraphBatchRequest,
+} from './graphBatch';
+import type { TokenSession } from './tokenSession';
+import { rowIssue, type ExternalFindings, type RowIssue } from './verifyCore';
+
+/** Resolution per manager UPN, keyed by the lower-cased UPN. */
+export type ManagerResolution = Map<string, { id: string } | { error: string }>;
+
+export interface ManagerCheck extends ExternalFindings {
+  resolution: ManagerResolution;
+}
+
+export interface ManagerAssignmentResult {
+  status: 'assigned' | 'removed' | 'error';
+  /** Manager UPN that was requested; empty for removals. */
+  managerUpn: string;
+  error?: string;
+}
+
+interface GraphManagerUser {
+  id?: string;
+  accountEnabled?: boolean | null;
+}
+
+/**
+ * Resolves the manager UPNs of all rows and flags managers that do not exist, are disabled,
+ * or are the row's own user (by Object ID, for rows that already have one).
+ * Does not call Graph when no row has a manager.
+ *
+ * @param rows - Per table row: the Manager UPN cell value and, for existing users, the Object ID.
+ */
+export async function checkManagers(
+  rows: { managerUpn: string; objectId?: string }[],
+  session: TokenSession,
+  options: GraphRequestOptions = {}
+): Promise<ManagerCheck> {
+  const upns = new Map<string, string>();
+  for (const { managerUpn } of rows) {
+    if (managerUpn) upns.set(managerUpn.toLowerCase(), managerUpn);
+  }
+
+  const keys = [...upns.keys()];
+  const requests: GraphBatchRequest[] = keys.map((key, i) => ({
+    id: String(i),
+    method: 'GET',
+    url: `/users/${encodeURIComponent(upns.get(key)!)}?$select=id,accountEnabled`,
+  }));
+
+  const resolution: ManagerResolution = new Map();
+  const responses = await sendGraphBatch(requests, session, options);
+  for (const [id, response] of responses) {
+    const key = keys[Number(id)]!;
+    const upn = upns.get(key)!;
+    if (response.status === 404) {
+      resolution.set(key, { error: `Manager '${upn}' not found` });
+    } else if (!isBatchSuccess(response)) {
+      resolution.set(key, {
+        error: `Manager '${upn}' could not be resolved: ${getBatchErrorMessage(response)}`,
+      });
+    } else {
+      const user = response.body as GraphManagerUser;
+      resolution.set(
+        key,
+        user.accountEnabled === false
+          ? { error: `Manager '${upn}' is disabled` }
+          : { id: user.id ?? '' }
+      );
+    }
+  }
+
+  const rowIssues = new Map<number, RowIssue[]>();
+  rows.forEach(({ managerUpn, objectId }, i) => {
+    if (!managerUpn) return;
+    const resolved = resolution.get(managerUpn.toLowerCase());
+    if (resolved && 'error' in resolved) {
+      rowIssues.set(i, [rowIssue(null, 'manager-unresolved', `Manager UPN: ${resolved.error}`)]);
+    } else if (resolved && objectId && resolved.id.toLowerCase() === objectId.toLowerCase()) {
+      rowIssues.set(i, [
+        rowIssue(null, 'manager-self', 'Manager UPN: a user cannot be their own manager'),
+      ]);
+    }
+  });
+
+  return { resolution, rowIssues, warnings: [] };
+}
+
+/**
+ * Sets (or removes) the manager of users using $batch requests.
+ *
+ * @param assignments - Per row: the user's object ID (null to skip the row) and the Manager UPN cell value.
+ *   An empty Manager UPN skips the row, unless `remove` is set: then the current manager is removed.
+ * @returns Per row (same order): the assignment result, or null when nothing was requested.
+ */
+export async function assignManagers(
+  assignments: { objectId: string | null; managerUpn: string; remove?: boolean }[],
+  resolution: ManagerResolution,
+  session: TokenSession,
+  options: GraphRequestOptions = {}
+): Promise<{ result: ManagerAssignmentResult | null; retries: number }[]> {
+  const rowResults = assignments.map(() => ({
+    result: null as ManagerAssignmentResult | null,
+    retries: 0,
+  }));
+
+  const requests: GraphBatchRequest[] = [];
+  assignments.forEach(({ objectId, managerUpn, remove }, i) => {
+    if (objectId && !managerUpn && remove) {
+      rowResults[i]!.result = { status: 'error', managerUpn, error: 'No response received' };
+      requests.push({
+        id: String(i),
+        method: 'DELETE',
+        url: `/users/${encodeURIComponent(objectId)}/manager/$ref`,
+      });
+      return;
+    }
+    if (!objectId || !managerUpn) return;
+    const resolved = resolution.get(managerUpn.toLowerCase());
+    if (!resolved || 'error' in resolved) {
+      rowResults[i]!.result = {
+        status: 'error',
+        managerUpn,
+        error: resolved?.error ?? 'Manager was not resolved',
+      };
+      return;
+    }
+    rowResults[i]!.result = { status: 'error', managerUpn, error: 'No response received' };
+    requests.push({
+      id: String(i),
+      method: 'PUT',
+      url: `/users/${encodeURIComponent(objectId)}/manager/$ref`,
+      body: { '@odata.id': `${GRAPH_BASE_URL}/users/${resolved.id}` },
+    });
+  });
+
+  const responses = await sendGraphBatch(requests, session, options);
+  for (const [id, response] of responses) {
+    const rowResult = rowResults[Number(id)]!;
+    const managerUpn = rowResult.result?.managerUpn ?? '';
+    rowResult.retries = response.retries;
+    rowResult.result = isBatchSuccess(response)
+      ? { status: managerUpn ? 'assigned' : 'removed', managerUpn }
+      : { status: 'error', managerUpn, error: getBatchErrorMessage(response) };
+  }
+
+  return rowResults;
+}
+
+/** Formats a manager result for the run log, e.g. "assigned: jane.doe@contoso.com". */
+export function formatManagerAssignmentResult(result: ManagerAssignmentResult | null): string {
+  if (!result) return '';
+  if (result.status === 'assigned') return `assigned: ${result.managerUpn}`;
+  if (result.status === 'removed') return 'removed';
+  return `error (${result.error})`;
+}
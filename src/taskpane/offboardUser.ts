@@ -0,0 +1,353 @@
+/**
+ * Offboard User via Microsoft Graph API (sent through $batch).
+ * Disables the account, stamps the SN ticket into its target (extension attribute 15 unless the
+ * tenant profile maps it elsewhere), and revokes sign-in sessions.
+ * Optionally removes group memberships and directly assigned licenses.
+ * Rows whose leaving date is in the future are skipped.
+ */
+
+import { cell, toErrorMessage, type GraphRequestOptions } from './graphHelpers';
+import {
+  getBatchErrorMessage,
+  isBatchSuccess,
+  sendGraphBatch,
+  type GraphBatchRequest,
+  type GraphBatchResponse,
+} from './graphBatch';
+import { mergeTokenUsage, type TokenSession, type TokenUsage } from './tokenSession';
+import { getUnmanageableReason, type GraphGroup } from './groupMembership';
+import { loadSubscribedSkus } from './licenseAssignment';
+import { parseDateCell } from './verifyCore';
+import { OFFBOARD_TABLE } from './tableColumns';
+import { resolveAttribute, setGraphProperty, type GraphUserProperties } from './userAttributes';
+import { DEFAULT_TENANT_CONFIG, type TenantConfig } from './tenantConfig';
+
+export interface GroupRemovalResult {
+  /** Group display name (or ID when the group has no name). */
+  group: string;
+  status: 'removed' | 'skipped' | 'error';
+  /** Error message, or the reason the group was skipped. */
+  error?: string;
+}
+
+export interface LicenseRemovalResult {
+  status: 'removed' | 'error';
+  /** SKU part numbers (or SKU IDs when the part number is unknown). */
+  skus: string[];
+  error?: string;
+}
+
+export interface OffboardUserResult {
+  objectId: string | null;
+  userPrincipalName: string | null;
+  /** Leaving date as ISO date (YYYY-MM-DD), null when the cell is invalid. */
+  leavingDate: string | null;
+  /** Group removals; empty when not requested or the user has no groups. */
+  groupResults: GroupRemovalResult[];
+  /** License removal; null when not requested or the user has no direct licenses. */
+  licenseResult: LicenseRemovalResult | null;
+  status: 'success' | 'error' | 'skipped';
+  error?: string;
+  /** Number of throttling retries needed for this row's Graph requests. */
+  retries: number;
+  /** Token used for this row's last Graph request (age and refresh event for the run log). */
+  token: TokenUsage | null;
+}
+
+export interface OffboardUsersOptions extends GraphRequestOptions {
+  /** Remove the user from all groups whose membership can be managed through Graph. */
+  removeGroups?: boolean;
+  /** Remove all directly assigned licenses (group-based licenses go with the groups). */
+  removeLicenses?: boolean;
+  /** Tenant profile (target of the SN Ticket ID). Defaults to DEFAULT_TENANT_CONFIG. */
+  tenant?: TenantConfig;
+}
+
+const COL = OFFBOARD_TABLE.col;
+
+/** Graph returns at most 999 memberships per page; more are not removed in one run. */
+const MEMBER_OF_PAGE_SIZE = 999;
+
+interface GraphOffboardUser {
+  id?: string;
+  userPrincipalName?: string | null;
+  licenseAssignmentStates?: { skuId?: string | null; assignedByGroup?: string | null }[] | null;
+}
+
+/** Returns today's date in local time as YYYY-MM-DD. */
+export function localToday(): string {
+  const now = new Date();
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+function newResult(leavingDate: string | null): OffboardUserResult {
+  return {
+    objectId: null,
+    userPrincipalName: null,
+    leavingDate,
+    groupResults: [],
+    licenseResult: null,
+    status: 'success',
+    retries: 0,
+    token: null,
+  };
+}
+
+function track(result: OffboardUserResult, response: GraphBatchResponse): void {
+  result.retries += response.retries;
+  result.token = mergeTokenUsage(result.token, response.token);
+}
+
+function fail(result: OffboardUserResult, error: string): void {
+  result.status = 'error';
+  result.error = error;
+}
+
+async function removeGroupMemberships(
+  results: OffboardUserResult[],
+  session: TokenSession,
+  options: GraphRequestOptions
+): Promise<void> {
+  const listRequests: GraphBatchRequest[] = [];
+  results.forEach((result, i) => {
+    if (result.status !== 'success' || !result.objectId) return;
+    listRequests.push({
+      id: String(i),
+      method: 'GET',
+      url:
+        `/users/${encodeURIComponent(result.objectId)}/memberOf/microsoft.graph.group` +
+        `?$select=id,displayName,groupTypes,mailEnabled,onPremisesSyncEnabled&$top=${MEMBER_OF_PAGE_SIZE}`,
+    });
+  });
+
+  const groupIds = results.map(() => [] as string[]);
+  const listResponses = await sendGraphBatch(listRequests, session, options);
+  for (const [id, response] of listResponses) {
+    const row = Number(id);
+    const result = results[row]!;
+    track(result, response);
+    if (!isBatchSuccess(response)) {
+      result.groupResults.push({
+        group: 'Group memberships',
+        status: 'error',
+        error: `could not be listed: ${getBatchErrorMessage(response)}`,
+      });
+      continue;
+    }
+    const groups = (response.body as { value?: GraphGroup[] }).value ?? [];
+    for (const group of groups) {
+      const reason = getUnmanageableReason(group);
+      result.groupResults.push({
+        group: group.displayName || group.id || '',
+        status: reason ? 'skipped' : 'error',
+        error: reason ?? 'No response received',
+      });
+      groupIds[row]!.push(group.id ?? '');
+    }
+  }
+
+  const removeRequests: GraphBatchRequest[] = [];
+  results.forEach((result, row) => {
+    result.groupResults.forEach((groupResult, slot) => {
+      if (groupResult.status !== 'error' || !groupIds[row]![slot]) return;
+      removeRequests.push({
+        id: `${row}:${slot}`,
+        method: 'DELETE',
+        url:
+          `/groups/${encodeURIComponent(groupIds[row]![slot]!)}` +
+          `/members/${encodeURIComponent(result.objectId!)}/$ref`,
+      });
+    });
+  });
+
+  const removeResponses = await sendGraphBatch(removeRequests, session, options);
+  for (const [id, response] of removeResponses) {
+    const [row, slot] = id.split(':').map(Number) as [number, number];
+    const result = results[row]!;
+    const groupResult = result.groupResults[slot]!;
+    track(result, response);
+    if (isBatchSuccess(response)) {
+      groupResult.status = 'removed';
+      delete groupResult.error;
+    } else {
+      groupResult.error = getBatchErrorMessage(response);
+    }
+  }
+}
+
+async function removeDirectLicenses(
+  results: OffboardUserResult[],
+  directSkuIds: string[][],
+  session: TokenSession,
+  options: GraphRequestOptions
+): Promise<void> {
+  if (directSkuIds.every((skuIds) => skuIds.length === 0)) return;
+
+  // Part numbers are only used for the log; fall back to SKU IDs if they cannot be loaded.
+  const partNumbers = new Map<string, string>();
+  try {
+    for (const sku of await loadSubscribedSkus(session, options)) {
+      partNumbers.set(sku.skuId.toLowerCase(), sku.skuPartNumber);
+    }
+  } catch (err) {
+    console.warn('Loading subscribed SKUs failed, logging SKU IDs:', toErrorMessage(err));
+  }
+
+  const requests: GraphBatchRequest[] = [];
+  results.forEach((result, i) => {
+    const skuIds = directSkuIds[i]!;
+    if (result.status !== 'success' || !result.objectId || skuIds.length === 0) return;
+    result.licenseResult = {
+      status: 'error',
+      skus: skuIds.map((skuId) => partNumbers.get(skuId.toLowerCase()) ?? skuId),
+      error: 'No response received',
+    };
+    requests.push({
+      id: String(i),
+      method: 'POST',
+      url: `/users/${encodeURIComponent(result.objectId)}/assignLicense`,
+      body: { addLicenses: [], removeLicenses: skuIds },
+    });
+  });
+
+  const responses = await sendGraphBatch(requests, session, options);
+  for (const [id, response] of responses) {
+    const result = results[Number(id)]!;
+    const skus = result.licenseResult?.skus ?? [];
+    track(result, response);
+    result.licenseResult = isBatchSuccess(response)
+      ? { status: 'removed', skus }
+      : { status: 'error', skus, error: getBatchErrorMessage(response) };
+  }
+}
+
+/**
+ * Offboards users for all given rows using Graph $batch requests.
+ * Resolves each user (UPN or Object ID), disables the account and stamps the SN ticket,
+ * revokes sign-in sessions, then removes groups and licenses if requested.
+ * A row that fails to be disabled is not processed further.
+ * Returns one result per row, in row order.
+ */
+export async function offboardUsers(
+  rows: unknown[][],
+  session: TokenSession,
+  options: OffboardUsersOptions = {}
+): Promise<OffboardUserResult[]> {
+  const today = localToday();
+  const results = rows.map((row) => {
+    const result = newResult(parseDateCell(row[COL.leavingDate]));
+    if (!cell(row, COL.user)) {
+      fail(result, 'User Principal Name or Object ID is required');
+    } else if (!result.leavingDate) {
+      fail(result, 'Leaving Date is invalid');
+    } else if (result.leavingDate > today) {
+      result.status = 'skipped';
+      result.error = 'Leaving date is in the future';
+    }
+    return result;
+  });
+
+  const lookupRequests: GraphBatchRequest[] = [];
+  rows.forEach((row, i) => {
+    if (results[i]!.status !== 'success') return;
+    lookupRequests.push({
+      id: String(i),
+      method: 'GET',
+      url:
+        `/users/${encodeURIComponent(cell(row, COL.user))}` +
+        '?$select=id,userPrincipalName,licenseAssignmentStates',
+    });
+  });
+
+  const directSkuIds = rows.map(() => [] as string[]);
+  const lookupResponses = await sendGraphBatch(lookupRequests, session, options);
+  for (const [id, response] of lookupResponses) {
+    const result = results[Number(id)]!;
+    track(result, response);
+    if (!isBatchSuccess(response)) {
+      fail(result, response.status === 404 ? 'User not found' : getBatchErrorMessage(response));
+      continue;
+    }
+    const user = response.body as GraphOffboardUser;
+    result.objectId = user.id ?? null;
+    result.userPrincipalName = user.userPrincipalName ?? null;
+    const skuIds = (user.licenseAssignmentStates ?? [])
+      .filter((state) => !state.assignedByGroup && state.skuId)
+      .map((state) => state.skuId!);
+    directSkuIds[Number(id)] = [...new Set(skuIds)];
+  }
+
+  const snTicketAttribute = resolveAttribute('snTicketId', options.tenant ?? DEFAULT_TENANT_CONFIG);
+  const disableRequests: GraphBatchRequest[] = [];
+  results.forEach((result, i) => {
+    if (result.status !== 'success' || !result.objectId) return;
+    const snTicketId = cell(rows[i] ?? [], COL.snTicketId);
+    const body: GraphUserProperties = { accountEnabled: false };
+    if (snTicketId) setGraphProperty(body, snTicketAttribute, snTicketId);
+    disableRequests.push({
+      id: String(i),
+      method: 'PATCH',
+      url: `/users/${encodeURIComponent(result.objectId)}`,
+      body,
+    });
+  });
+
+  const disableResponses = await sendGraphBatch(disableRequests, session, options);
+  for (const [id, response] of disableResponses) {
+    const result = results[Number(id)]!;
+    track(result, response);
+    if (!isBatchSuccess(response)) {
+      fail(result, `Disabling the account failed: ${getBatchErrorMessage(response)}`);
+    }
+  }
+
+  const revokeRequests: GraphBatchRequest[] = [];
+  results.forEach((result, i) => {
+    if (result.status !== 'success' || !result.objectId) return;
+    revokeRequests.push({
+      id: String(i),
+      method: 'POST',
+      url: `/users/${encodeURIComponent(result.objectId)}/revokeSignInSessions`,
+    });
+  });
+
+  const revokeResponses = await sendGraphBatch(revokeRequests, session, options);
+  const revokeErrors = new Map<number, string>();
+  for (const [id, response] of revokeResponses) {
+    const result = results[Number(id)]!;
+    track(result, response);
+    if (!isBatchSuccess(response)) {
+      revokeErrors.set(Number(id), getBatchErrorMessage(response));
+    }
+  }
+
+  // Groups and licenses are removed even when revoking sessions failed: the account is disabled already.
+  if (options.removeGroups) {
+    await removeGroupMemberships(results, session, options);
+  }
+  if (options.removeLicenses) {
+    await removeDirectLicenses(results, directSkuIds, session, options);
+  }
+
+  revokeErrors.forEach((error, i) => {
+    fail(results[i]!, `Account disabled, but revoking sign-in sessions failed: ${error}`);
+  });
+
+  return results;
+}
+
+/** Formats group removals for the Offboard log, e.g. "Sales: removed; All Staff: skipped (...)". */
+export function formatGroupRemovalResults(results: GroupRemovalResult[]): string {
+  return results
+    .map((r) => (r.status === 'removed' ? `${r.group}: removed` : `${r.group}: ${r.status} (${r.error})`))
+    .join('; ');
+}
+
+/** Formats a license removal for the Offboard log, e.g. "removed: ENTERPRISEPACK". */
+export function formatLicenseRemovalResult(result: LicenseRemovalResult | null): string {
+  if (!result) return '';
+  return result.status === 'removed'
+    ? `removed: ${result.skus.join(', ')}`
+    : `error (${result.error})`;
+}
@@ -0,0 +1,137 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  DEFAULT_PASSWORD_POLICY,
+  generatePassword,
+  MAX_PASSWORD_LENGTH,
+  MIN_PASSWORD_LENGTH,
+  validatePasswordPolicy,
+  type PasswordPolicy,
+} from './passwordGenerator';
+
+const count = (password: string, characters: string) =>
+  [...password].filter((c) => characters.includes(c)).length;
+
+const policy = (overrides: Partial<PasswordPolicy>): PasswordPolicy => ({
+  ...DEFAULT_PASSWORD_POLICY,
+  ...overrides,
+});
+
+describe('generatePassword', () => {
+  test('uses the default policy', () => {
+    const password = generatePassword();
+    expect(password).toHaveLength(DEFAULT_PASSWORD_POLICY.length);
+    for (const cls of DEFAULT_PASSWORD_POLICY.classes) {
+      expect(count(password, cls.characters)).toBeGreaterThanOrEqual(cls.minCount);
+    }
+  });
+
+  test('meets the minimum count of every class', () => {
+    const strict = policy({
+      length: 12,
+      classes: [
+        { name: 'lower', characters: 'abcdefghijklmnopqrstuvwxyz', minCount: 3 },
+        { name: 'upper', characters: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ', minCount: 3 },
+        { name: 'digits', characters: '0123456789', minCount: 3 },
+        { name: 'special', characters: '!@#$%&*', minCount: 3 },
+      ],
+    });
+    for (let i = 0; i < 50; i++) {
+      const password = generatePassword(strict);
+      for (const cls of strict.classes) {
+        expect(count(password, cls.characters)).toBe(3);
+      }
+    }
+  });
+
+  test('only uses characters of the classes', () => {
+    const digitsOnly = policy({
+      classes: [{ name: 'digits', characters: '0123456789', minCount: 1 }],
+      excludedCharacters: '',
+    });
+    expect(generatePassword(digitsOnly)).toMatch(/^\d{16}$/);
+  });
+
+  test('never uses excluded characters', () => {
+    const excluded = DEFAULT_PASSWORD_POLICY.excludedCharacters;
+    for (let i = 0; i < 50; i++) {
+      expect(count(generatePassword(), excluded)).toBe(0);
+    }
+  });
+
+  test('generates the shortest and longest allowed passwords', () => {
+    expect(generatePassword(policy({ length: MIN_PASSWORD_LENGTH }))).toHaveLength(
+      MIN_PASSWORD_LENGTH
+    );
+    expect(generatePassword(policy({ length: MAX_PASSWORD_LENGTH }))).toHaveLength(
+      MAX_PASSWORD_LENGTH
+    );
+  });
+
+  test('throws for an invalid policy', () => {
+    expect(() => generatePassword(policy({ length: 4 }))).toThrow('Invalid password policy');
+  });
+});
+
+describe('validatePasswordPolicy', () => {
+  test('accepts the default policy', () => {
+    expect(validatePasswordPolicy(DEFAULT_PASSWORD_POLICY)).toEqual([]);
+  });
+
+  test.each([MIN_PASSWORD_LENGTH - 1, MAX_PASSWORD_LENGTH + 1, 12.5, NaN])(
+    'rejects the length %p',
+    (length) => {
+      expect(validatePasswordPolicy(policy({ length }))).toEqual([
+        `Length must be a whole number between ${MIN_PASSWORD_LENGTH} and ${MAX_PASSWORD_LENGTH}`,
+      ]);
+    }
+  );
+
+  test('rejects a policy without classes', () => {
+    expect(validatePasswordPolicy(policy({ classes: [] }))).toEqual([
+      'At least one character class is required',
+    ]);
+  });
+
+  test('rejects a negative or fractional minimum count', () => {
+    const problems = validatePasswordPolicy(
+      policy({
+        classes: [
+          { name: 'lower', characters: 'abc', minCount: -1 },
+          { name: 'upper', characters: 'ABC', minCount: 1.5 },
+        ],
+        excludedCharacters: '',
+      })
+    );
+    expect(problems).toEqual([
+      "Class 'lower': minimum count must be a whole number >= 0",
+      "Class 'upper': minimum count must be a whole number >= 0",
+    ]);
+  });
+
+  test('rejects a class whose characters are all excluded', () => {
+    const problems = validatePasswordPolicy(
+      policy({
+        classes: [
+          { name: 'lower', characters: 'abc', minCount: 1 },
+          { name: 'digits', characters: '01', minCount: 1 },
+        ],
+        excludedCharacters: '01',
+      })
+    );
+    expect(problems).toEqual(["Class 'digits' has no characters left after exclusions"]);
+  });
+
+  test('rejects minimum counts that exceed the length', () => {
+    const problems = validatePasswordPolicy(
+      policy({
+        length: 8,
+        classes: [
+          { name: 'lower', characters: 'abc', minCount: 5 },
+          { name: 'upper', characters: 'ABC', minCount: 4 },
+        ],
+        excludedCharacters: '',
+      })
+    );
+    expect(problems).toEqual(['Sum of minimum counts (9) exceeds the length (8)']);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Policy-driven password generator for initial credentials.
+ * Uses crypto.getRandomValues with rejection sampling (no modulo bias)
+ * and a Fisher–Yates shuffle, so every position is uniformly random.
+ */
+
+export interface PasswordCharacterClass {
+  /** Short name used in the policy description, e.g. "upper". */
+  name: string;
+  characters: string;
+  /** Minimum number of characters from this class. */
+  minCount: number;
+}
+
+export interface PasswordPolicy {
+  length: number;
+  classes: PasswordCharacterClass[];
+  /** Characters removed from every class, e.g. look-alikes such as I, l, 1, O, 0. */
+  excludedCharacters: string;
+}
+
+/** Entra ID accepts passwords between 8 and 256 characters. */
+export const MIN_PASSWORD_LENGTH = 8;
+export const MAX_PASSWORD_LENGTH = 256;
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  length: 16,
+  classes: [
+    { name: 'lower', characters: 'abcdefghijklmnopqrstuvwxyz', minCount: 1 },
+    { name: 'upper', characters: 'ABCDEFGHIJKLMNOPQRSTUVWXYZ', minCount: 1 },
+    { name: 'digits', characters: '0123456789', minCount: 1 },
+    { name: 'special', characters: '!@#$%&*', minCount: 1 },
+  ],
+  excludedCharacters: 'ilo01ILO',
+};
+
+/** Returns the characters of a class with the policy's excluded characters removed (deduplicated). */
+function usableCharacters(characters: string, excluded: string): string[] {
+  return [...new Set(characters)].filter((c) => !excluded.includes(c));
+}
+
+/** Returns policy problems as human-readable messages (empty when the policy is usable). */
+export function validatePasswordPolicy(policy: PasswordPolicy): string[] {
+  const messages: string[] = [];
+
+  if (
+    !Number.isInteger(policy.length) ||
+    policy.length < MIN_PASSWORD_LENGTH ||
+    policy.length > MAX_PASSWORD_LENGTH
+  ) {
+    messages.push(
+      `Length must be a whole number between ${MIN_PASSWORD_LENGTH} and ${MAX_PASSWORD_LENGTH}`
+    );
+  }
+  if (policy.classes.length === 0) {
+    messages.push('At least one character class is required');
+  }
+
+  let minTotal = 0;
+  for (const cls of policy.classes) {
+    if (!Number.isInteger(cls.minCount) || cls.minCount < 0) {
+      messages.push(`Class '${cls.name}': minimum count must be a whole number >= 0`);
+    }
+    if (usableCharacters(cls.characters, policy.excludedCharacters).length === 0) {
+      messages.push(`Class '${cls.name}' has no characters left after exclusions`);
+    }
+    minTotal += cls.minCount;
+  }
+  if (minTotal > policy.length) {
+    messages.push(`Sum of minimum counts (${minTotal}) exceeds the length (${policy.length})`);
+  }
+
+  return messages;
+}
+
+/** Returns a uniformly distributed integer in [0, max) using rejection sampling. */
+function randomInt(max: number): number {
+  const range = 0x1_0000_0000;
+  const limit = range - (range % max);
+  const buffer = new Uint32Array(1);
+  for (;;) {
+    crypto.getRandomValues(buffer);
+    const value = buffer[0]!;
+    if (value < limit) return value % max;
+  }
+}
+
+function pick(characters: string[]): string {
+  return characters[randomInt(characters.length)]!;
+}
+
+/**
+ * Generates a password that satisfies the given policy.
+ * @throws {Error} When the policy cannot be satisfied (see validatePasswordPolicy).
+ */
+export function generatePassword(policy: PasswordPolicy = DEFAULT_PASSWORD_POLICY): string {
+  const problems = validatePasswordPolicy(policy);
+  if (problems.length > 0) {
+    throw new Error(`Invalid password policy: ${problems.join('; ')}`);
+  }
+
+  const classChars = policy.classes.map((cls) =>
+    usableCharacters(cls.characters, policy.excludedCharacters)
+  );
+  const allChars = [...new Set(classChars.flat())];
+
+  const chars: string[] = [];
+  policy.classes.forEach((cls, i) => {
+    for (let n = 0; n < cls.minCount; n++) {
+      chars.push(pick(classChars[i]!));
+    }
+  });
+  while (chars.length < policy.length) {
+    chars.push(pick(allChars));
+  }
+
+  // Fisher–Yates shuffle so the guaranteed class characters are not at fixed positions
+  for (let i = chars.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1);
+    [chars[i], chars[j]] = [chars[j]!, chars[i]!];
+  }
+
+  return chars.join('');
+}
+
+/** Describes a policy for the Create log, e.g. "16 chars; lower>=1, upper>=1; excluded: ilo01ILO". */
+export function describePasswordPolicy(policy: PasswordPolicy): string {
+  const classes = policy.classes.map((cls) => `${cls.name}>=${cls.minCount}`).join(', ');
+  const excluded = policy.excludedCharacters ? `; excluded: ${policy.excludedCharacters}` : '';
+  return `${policy.length} chars; ${classes}${excluded}`;
+}
@@ -0,0 +1,36 @@
+/**
+ * Preview (dry run) of the Graph requests a Create or Update run would send.
+ * Built by previewCreateUsers and previewUpdateUsers from the same mapping code as the real run;
+ * only read requests (existence checks) are sent.
+ */
+
+/** Replaces generated passwords in previewed request bodies. */
+export const MASKED_PASSWORD = '********';
+
+export interface RequestPreview {
+  /** Result of the existence check (Create: UPN lookup; Update: re-read by Object ID); empty when not checked. */
+  existence: string;
+  action: 'create' | 'skip' | 'patch' | 'no-op' | 'conflict' | 'error';
+  /** Method and URL (relative to the Graph base URL) of the main request; empty when none is sent. */
+  method: string;
+  url: string;
+  /** JSON body of the main request, passwords masked; empty without a body. */
+  body: string;
+  /** Requests that follow the main one, e.g. group memberships or the manager. */
+  followUps: string[];
+  /** Reason for a skip, no-op, conflict or error. */
+  note: string;
+}
+
+/** Serializes a request body for the preview sheet. */
+export function formatRequestBody(body: unknown): string {
+  return body === undefined ? '' : JSON.stringify(body);
+}
+
+export function emptyRequestPreview(
+  action: RequestPreview['action'],
+  existence: string,
+  note: string
+): RequestPreview {
+  return { existence, action, method: '', url: '', body: '', followUps: [], note };
+}
@@ -0,0 +1,130 @@
+/**
+ * Reset Password via Microsoft Graph API (PATCH /users/{upn} with a new passwordProfile, sent through $batch).
+ * Passwords come from the same policy-driven generator as Create; users must change them at next sign-in.
+ * Optionally revokes the users' sign-in sessions.
+ */
+
+import { cell, type GraphRequestOptions } from './graphHelpers';
+import {
+  getBatchErrorMessage,
+  isBatchSuccess,
+  sendGraphBatch,
+  type GraphBatchRequest,
+} from './graphBatch';
+import { mergeTokenUsage, type TokenSession, type TokenUsage } from './tokenSession';
+import {
+  DEFAULT_PASSWORD_POLICY,
+  generatePassword,
+  type PasswordPolicy,
+} from './passwordGenerator';
+import { RESET_PASSWORD_TABLE } from './tableColumns';
+
+export interface ResetPasswordResult {
+  /** New password; null when the reset failed. */
+  password: string | null;
+  /** Whether sign-in sessions were revoked; null when not requested or the reset failed. */
+  sessionsRevoked: boolean | null;
+  status: 'success' | 'error';
+  error?: string;
+  /** Number of throttling retries needed for this row's Graph requests. */
+  retries: number;
+  /** Token used for this row's last Graph request (age and refresh event for the run log). */
+  token: TokenUsage | null;
+}
+
+export interface ResetPasswordsOptions extends GraphRequestOptions {
+  /** Policy for the generated passwords. Defaults to DEFAULT_PASSWORD_POLICY. */
+  passwordPolicy?: PasswordPolicy;
+  /** Also revoke all sign-in sessions (POST /users/{id}/revokeSignInSessions). */
+  revokeSessions?: boolean;
+}
+
+const COL = RESET_PASSWORD_TABLE.col;
+
+function errorResult(
+  error: string,
+  retries = 0,
+  token: TokenUsage | null = null
+): ResetPasswordResult {
+  return { password: null, sessionsRevoked: null, status: 'error', error, retries, token };
+}
+
+/**
+ * Resets the passwords of all given rows using Graph $batch requests,
+ * then revokes the sessions of the reset users if requested.
+ * Returns one result per row, in row order.
+ */
+export async function resetPasswords(
+  rows: unknown[][],
+  session: TokenSession,
+  options: ResetPasswordsOptions = {}
+): Promise<ResetPasswordResult[]> {
+  const passwordPolicy = options.passwordPolicy ?? DEFAULT_PASSWORD_POLICY;
+  const results: (ResetPasswordResult | null)[] = rows.map((row) =>
+    cell(row, COL.userPrincipalName) ? null : errorResult('User Principal Name is required')
+  );
+
+  const passwords = new Map<number, string>();
+  const resetRequests: GraphBatchRequest[] = [];
+  rows.forEach((row, i) => {
+    if (results[i] !== null) return;
+    const password = generatePassword(passwordPolicy);
+    passwords.set(i, password);
+    resetRequests.push({
+      id: String(i),
+      method: 'PATCH',
+      url: `/users/${encodeURIComponent(cell(row, COL.userPrincipalName))}`,
+      body: {
+        passwordProfile: {
+          password,
+          forceChangePasswordNextSignIn: true,
+        },
+      },
+    });
+  });
+
+  const resetResponses = await sendGraphBatch(resetRequests, session, options);
+  for (const [id, response] of resetResponses) {
+    const index = Number(id);
+    const { retries, token } = response;
+    results[index] = isBatchSuccess(response)
+      ? {
+          password: passwords.get(index) ?? null,
+          sessionsRevoked: null,
+          status: 'success',
+          retries,
+          token,
+        }
+      : errorResult(getBatchErrorMessage(response), retries, token);
+  }
+
+  const finalResults = results.map((r) => r ?? errorResult('No response received'));
+  if (!options.revokeSessions) {
+    return finalResults;
+  }
+
+  const revokeRequests: GraphBatchRequest[] = [];
+  finalResults.forEach((result, i) => {
+    if (result.status !== 'success') return;
+    revokeRequests.push({
+      id: String(i),
+      method: 'POST',
+      url: `/users/${encodeURIComponent(cell(rows[i] ?? [], COL.userPrincipalName))}/revokeSignInSessions`,
+    });
+  });
+
+  const revokeResponses = await sendGraphBatch(revokeRequests, session, options);
+  for (const [id, response] of revokeResponses) {
+    const result = finalResults[Number(id)]!;
+    result.retries += response.retries;
+    result.token = mergeTokenUsage(result.token, response.token);
+    result.sessionsRevoked = isBatchSuccess(response);
+    if (!result.sessionsRevoked) {
+      // The password was changed: keep it in the result so it still reaches the log.
+      result.status = 'error';
+      result.error = `Password reset, but revoking sign-in sessions failed: ${getBatchErrorMessage(response)}`;
+    }
+  }
+
+  return finalResults;
+}
@@ -0,0 +1,145 @@
+/**
+ * Restore soft-deleted users from the directory recycle bin via Microsoft Graph API.
+ * Lists GET /directory/deletedItems/microsoft.graph.user and restores
+ * with POST /directory/deletedItems/{id}/restore (sent through $batch).
+ */
+
+import {
+  GRAPH_BASE_URL,
+  graphFetch,
+  parseGraphErrorResponse,
+  type GraphRequestOptions,
+} from './graphHelpers';
+import {
+  getBatchErrorMessage,
+  isBatchSuccess,
+  sendGraphBatch,
+  type GraphBatchRequest,
+} from './graphBatch';
+import type { TokenSession, TokenUsage } from './tokenSession';
+
+const DELETED_USERS_URL =
+  `${GRAPH_BASE_URL}/directory/deletedItems/microsoft.graph.user` +
+  '?$select=id,userPrincipalName,displayName,mail,deletedDateTime&$top=999';
+
+export interface DeletedUser {
+  objectId: string;
+  /** UPN as stored in the recycle bin (Graph prefixes it with the object ID, without dashes). */
+  userPrincipalName: string;
+  displayName: string;
+  mail: string;
+  /** ISO timestamp of the deletion. */
+  deletedDateTime: string;
+}
+
+export interface DeletedUserFilter {
+  /** Only users deleted on or after this ISO date (YYYY-MM-DD, UTC). */
+  deletedSince?: string;
+  /** Only users whose UPN contains this text (case-insensitive). */
+  upnContains?: string;
+}
+
+export interface RestoreUserResult {
+  status: 'success' | 'error';
+  /** UPN after the restore (Graph restores the original UPN). */
+  userPrincipalName?: string;
+  error?: string;
+  /** Number of throttling retries needed for this row's Graph request. */
+  retries: number;
+  /** Token used for this row's Graph request (age and refresh event for the run log). */
+  token: TokenUsage | null;
+}
+
+interface GraphDeletedUser {
+  id?: string;
+  userPrincipalName?: string | null;
+  displayName?: string | null;
+  mail?: string | null;
+  deletedDateTime?: string | null;
+}
+
+function matchesFilter(user: DeletedUser, filter: DeletedUserFilter): boolean {
+  if (filter.deletedSince && user.deletedDateTime.slice(0, 10) < filter.deletedSince) {
+    return false;
+  }
+  const upnContains = filter.upnContains?.trim().toLowerCase();
+  if (upnContains && !user.userPrincipalName.toLowerCase().includes(upnContains)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Lists all soft-deleted users (following @odata.nextLink) and applies the filter.
+ * Returns the newest deletions first.
+ * @throws {Error} When a page cannot be loaded.
+ */
+export async function loadDeletedUsers(
+  session: TokenSession,
+  filter: DeletedUserFilter = {},
+  options: GraphRequestOptions = {}
+): Promise<DeletedUser[]> {
+  const users: DeletedUser[] = [];
+  let url: string | undefined = DELETED_USERS_URL;
+  while (url) {
+    const { response } = await graphFetch(url, { method: 'GET' }, session, options);
+    if (!response.ok) {
+      throw new Error(await parseGraphErrorResponse(response));
+    }
+    const data = (await response.json()) as {
+      value?: GraphDeletedUser[];
+      '@odata.nextLink'?: string;
+    };
+    for (const user of data.value ?? []) {
+      users.push({
+        objectId: user.id ?? '',
+        userPrincipalName: user.userPrincipalName ?? '',
+        displayName: user.displayName ?? '',
+        mail: user.mail ?? '',
+        deletedDateTime: user.deletedDateTime ?? '',
+      });
+    }
+    url = data['@odata.nextLink'];
+  }
+
+  return users
+    .filter((user) => matchesFilter(user, filter))
+    .sort((a, b) => b.deletedDateTime.localeCompare(a.deletedDateTime));
+}
+
+/**
+ * Restores deleted users by object ID using $batch requests.
+ * Returns one result per object ID, in input order.
+ */
+export async function restoreDeletedUsers(
+  objectIds: string[],
+  session: TokenSession,
+  options: GraphRequestOptions = {}
+): Promise<RestoreUserResult[]> {
+  const results: (RestoreUserResult | null)[] = objectIds.map((objectId) =>
+    objectId ? null : { status: 'error', error: 'Object ID is empty', retries: 0, token: null }
+  );
+
+  const requests: GraphBatchRequest[] = [];
+  objectIds.forEach((objectId, i) => {
+    if (results[i] !== null) return;
+    requests.push({
+      id: String(i),
+      method: 'POST',
+      url: `/directory/deletedItems/${encodeURIComponent(objectId)}/restore`,
+    });
+  });
+
+  const responses = await sendGraphBatch(requests, session, options);
+  for (const [id, response] of responses) {
+    const { retries, token } = response;
+    const user = response.body as GraphDeletedUser | undefined;
+    results[Number(id)] = isBatchSuccess(response)
+      ? { status: 'success', userPrincipalName: user?.userPrincipalName ?? undefined, retries, token }
+      : { status: 'error', error: getBatchErrorMessage(response), retries, token };
+  }
+
+  return results.map(
+    (r) => r ?? { status: 'error', error: 'No response received', retries: 0, token: null }
+  );
+}
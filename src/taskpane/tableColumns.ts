@@ -0,0 +1,151 @@
+/**
+ * Column layouts of the input tables (Offboard, Reset Password, Restore; the Create and Update
+ * layouts are generated from the attribute schema in userAttributes.ts).
+ * Each layout lists the columns in template order with their header. The tables are read by header
+ * name (see ensureInputAndGetTable), so rows always come in layout order, however the columns are
+ * arranged in the sheet; code accesses cells by key through the layout's `col` record.
+ * Optional columns may be missing from tables initialized before they were added; their cells read
+ * as undefined (empty).
+ */
+
+export interface TableLayout<K extends string> {
+  /** Column keys, in template order. */
+  keys: readonly K[];
+  /** Column headers, in template order (used by Initialize Table). */
+  headers: readonly string[];
+  /** Column index (in the row arrays) per key. */
+  col: Readonly<Record<K, number>>;
+  /** Keys of the columns a table may lack (added after tables were first initialized). */
+  optional: readonly K[];
+}
+
+/** Creates a layout from the headers per key; the key order is the template column order. */
+export function defineTableLayout<K extends string>(
+  headers: Record<K, string>,
+  optional: readonly K[] = []
+): TableLayout<K> {
+  const keys = Object.keys(headers) as K[];
+  const col = {} as Record<K, number>;
+  keys.forEach((key, i) => (col[key] = i));
+  return { keys, headers: keys.map((key) => headers[key]), col, optional };
+}
+
+/** Table column index of a layout column the table does not have (see resolveTableColumns). */
+export const ABSENT_COLUMN = -1;
+
+/** Raised when the header row of a table does not match its layout. */
+export class TableColumnsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TableColumnsError';
+  }
+}
+
+const normalizeHeader = (header: unknown) => String(header ?? '').trim().toLowerCase();
+
+/**
+ * Resolves the layout columns by header name (case-insensitive).
+ * Returns the table column index per layout column (ABSENT_COLUMN for a missing optional column).
+ * Throws TableColumnsError when headers are missing, unknown or duplicated.
+ */
+export function resolveTableColumns<K extends string>(
+  layout: TableLayout<K>,
+  tableName: string,
+  headerRow: unknown[]
+): number[] {
+  const positions = new Map<string, number[]>();
+  headerRow.forEach((header, i) => {
+    const key = normalizeHeader(header);
+    positions.set(key, [...(positions.get(key) ?? []), i]);
+  });
+
+  const expected = new Set(layout.headers.map(normalizeHeader));
+  const optional = new Set(layout.optional.map((key) => layout.col[key]));
+  const missing = layout.headers.filter(
+    (header, i) => !optional.has(i) && !positions.has(normalizeHeader(header))
+  );
+  const unknown = headerRow
+    .map((header) => String(header ?? '').trim())
+    .filter((header) => !expected.has(header.toLowerCase()));
+  const duplicates = layout.headers.filter(
+    (header) => (positions.get(normalizeHeader(header))?.length ?? 0) > 1
+  );
+
+  const problems: string[] = [];
+  const list = (headers: string[]) => headers.map((h) => `'${h || '(empty)'}'`).join(', ');
+  if (missing.length > 0) problems.push(`missing column(s) ${list(missing)}`);
+  if (unknown.length > 0) problems.push(`unknown column(s) ${list(unknown)}`);
+  if (duplicates.length > 0) problems.push(`duplicate column(s) ${list(duplicates)}`);
+  if (problems.length > 0) {
+    throw new TableColumnsError(
+      `Table '${tableName}': ${problems.join('; ')}. ` +
+        'Fix the headers (Initialize Table shows the expected columns).'
+    );
+  }
+
+  return layout.headers.map(
+    (header) => positions.get(normalizeHeader(header))?.[0] ?? ABSENT_COLUMN
+  );
+}
+
+/** Keys of the layout columns the table has (see resolveTableColumns). */
+export function presentKeys<K extends string>(
+  layout: TableLayout<K>,
+  columns: readonly number[]
+): K[] {
+  return layout.keys.filter((_, i) => columns[i] !== ABSENT_COLUMN);
+}
+
+/** Reorders a table row (table column order) into layout order; absent columns are undefined. */
+export function toLayoutOrder(row: unknown[], columns: readonly number[]): unknown[] {
+  return columns.map((tableColumn) =>
+    tableColumn === ABSENT_COLUMN ? undefined : row[tableColumn]
+  );
+}
+
+/**
+ * Table column to highlight for an issue: the issue's column, or the first column of the row
+ * for row issues (null) and issues of an absent column.
+ */
+export function issueTableColumn(columns: readonly number[], column: number | null): number {
+  const tableColumn = column === null ? ABSENT_COLUMN : columns[column]!;
+  return tableColumn === ABSENT_COLUMN ? 0 : tableColumn;
+}
+
+/** Column letter of a 0-based column index (0 → A, 26 → AA). */
+export function columnLetter(index: number): string {
+  let letter = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+}
+
+/** Reorders layout-ordered values into table column order; values of absent columns are dropped. */
+export function toTableOrder<T>(values: readonly T[], columns: readonly number[]): T[] {
+  const row: T[] = [];
+  columns.forEach((tableColumn, i) => {
+    if (tableColumn !== ABSENT_COLUMN) row[tableColumn] = values[i]!;
+  });
+  return row;
+}
+
+// ─── Layouts ─────────────────────────────────────────────────────────
+
+export const OFFBOARD_TABLE = defineTableLayout({
+  user: 'User Principal Name or Object ID',
+  leavingDate: 'Leaving Date',
+  snTicketId: 'SN Ticket ID',
+});
+
+export const RESET_PASSWORD_TABLE = defineTableLayout({
+  userPrincipalName: 'User Principal Name',
+});
+
+export const RESTORE_TABLE = defineTableLayout({
+  objectId: 'Object ID',
+  userPrincipalName: 'User Principal Name',
+  displayName: 'Display Name',
+  mail: 'Mail',
+  deletedDateTime: 'Deleted',
+});
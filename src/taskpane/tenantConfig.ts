@@ -0,0 +1,297 @@
+/**
+ * Tenant configuration profile: allowed UPN and mail domains, the max. row count, where the custom
+ * columns (HR identifiers) are stored, the required fields and the password policy. The profile is
+ * stored in the workbook (see excelTenantConfig.ts), so each company keeps its own settings without
+ * a rebuild. Verify, the templates, the Graph mapping and the generated passwords read it; workbooks
+ * without a profile use the defaults.
+ */
+
+import {
+  GRAPH_BASE_URL,
+  graphFetch,
+  parseGraphErrorResponse,
+  type GraphRequestOptions,
+} from './graphHelpers';
+import {
+  DEFAULT_PASSWORD_POLICY,
+  validatePasswordPolicy,
+  type PasswordCharacterClass,
+  type PasswordPolicy,
+} from './passwordGenerator';
+import type { TokenSession } from './tokenSession';
+import {
+  attributeTargetProperty,
+  defaultAttributeTarget,
+  formatAttributeTarget,
+  USER_ATTRIBUTES,
+  type AttributeTarget,
+  type UserAttribute,
+  type UserAttributeKey,
+} from './userAttributes';
+
+export interface TenantConfig {
+  /** Allowed User Principal Name domains (lower case). */
+  upnDomains: string[];
+  /** Allowed mail domains (lower case). */
+  mailDomains: string[];
+  /** Max. data rows per table; Verify fails for larger tables. */
+  maxRows: number;
+  /**
+   * Target per custom column: an extension attribute (1–15), a schema extension property or a
+   * custom security attribute. Create, Update and Load Data use it.
+   */
+  attributeTargets: Partial<Record<UserAttributeKey, AttributeTarget>>;
+  /** Attributes that must be filled; attributes Graph always needs are required in any case. */
+  requiredFields: UserAttributeKey[];
+  /** Policy of the passwords generated by Create and Reset Password. */
+  passwordPolicy: PasswordPolicy;
+}
+
+export const MIN_EXTENSION_ATTRIBUTE = 1;
+export const MAX_EXTENSION_ATTRIBUTE = 15;
+
+/** Upper bound for maxRows; larger tables take too long for a single run. */
+export const MAX_ROWS_LIMIT = 1000;
+
+const ATTRIBUTES: Record<UserAttributeKey, UserAttribute> = USER_ATTRIBUTES;
+
+const ATTRIBUTE_KEYS = Object.keys(ATTRIBUTES) as UserAttributeKey[];
+
+/** Custom columns the profile maps to a target (e.g. Local HR ID, SN Ticket ID). */
+export const CUSTOM_ATTRIBUTE_KEYS = ATTRIBUTE_KEYS.filter(
+  (key) => defaultAttributeTarget(key) !== undefined
+);
+
+/** Attributes whose requiredness the profile can change. */
+export const CONFIGURABLE_REQUIRED_KEYS = ATTRIBUTE_KEYS.filter(
+  (key) => ATTRIBUTES[key].required !== 'always'
+);
+
+export const DEFAULT_TENANT_CONFIG: TenantConfig = {
+  upnDomains: ['majorel.com'],
+  mailDomains: ['majorel.com', 'mj.teleperformance.com'],
+  maxRows: 100,
+  attributeTargets: Object.fromEntries(
+    CUSTOM_ATTRIBUTE_KEYS.map((key) => [key, defaultAttributeTarget(key)])
+  ),
+  requiredFields: CONFIGURABLE_REQUIRED_KEYS.filter((key) => ATTRIBUTES[key].required === true),
+  passwordPolicy: DEFAULT_PASSWORD_POLICY,
+};
+
+/** Target of a custom column (one of CUSTOM_ATTRIBUTE_KEYS) in the profile. */
+export function customAttributeTarget(
+  config: TenantConfig,
+  key: UserAttributeKey
+): AttributeTarget {
+  return config.attributeTargets[key] ?? defaultAttributeTarget(key)!;
+}
+
+/** Splits a domain list entered as text (separated by ";", "," or spaces) into lower-case domains. */
+export function parseDomainList(text: string): string[] {
+  return [
+    ...new Set(
+      text
+        .split(/[;,\s]+/)
+        .map((d) => d.trim().toLowerCase())
+        .filter((d) => d !== '')
+    ),
+  ];
+}
+
+const stringList = (value: unknown): string[] | null =>
+  Array.isArray(value) && value.every((v) => typeof v === 'string') ? value : null;
+
+/** Reads a stored target; null when it is malformed. */
+function parseAttributeTarget(value: unknown): AttributeTarget | null {
+  if (value === null || typeof value !== 'object') return null;
+  const t = value as Record<string, unknown>;
+  if (t.type === 'extensionAttribute' && typeof t.number === 'number') {
+    return { type: t.type, number: t.number };
+  }
+  if (
+    t.type === 'schemaExtension' &&
+    typeof t.extensionId === 'string' &&
+    typeof t.property === 'string'
+  ) {
+    return { type: t.type, extensionId: t.extensionId, property: t.property };
+  }
+  if (
+    t.type === 'customSecurityAttribute' &&
+    typeof t.attributeSet === 'string' &&
+    typeof t.attribute === 'string'
+  ) {
+    return { type: t.type, attributeSet: t.attributeSet, attribute: t.attribute };
+  }
+  return null;
+}
+
+/** Reads a stored character class; null when it is malformed. */
+function parsePasswordCharacterClass(value: unknown): PasswordCharacterClass | null {
+  if (value === null || typeof value !== 'object') return null;
+  const c = value as Record<string, unknown>;
+  return typeof c.name === 'string' &&
+    typeof c.characters === 'string' &&
+    typeof c.minCount === 'number'
+    ? { name: c.name, characters: c.characters, minCount: c.minCount }
+    : null;
+}
+
+/** Reads a stored password policy; malformed fields get their default. */
+function parsePasswordPolicy(value: unknown): PasswordPolicy {
+  if (value === null || typeof value !== 'object') return DEFAULT_PASSWORD_POLICY;
+  const p = value as Record<string, unknown>;
+  const classes = Array.isArray(p.classes) ? p.classes.map(parsePasswordCharacterClass) : null;
+  return {
+    length: typeof p.length === 'number' ? p.length : DEFAULT_PASSWORD_POLICY.length,
+    classes:
+      classes && classes.every((c) => c !== null)
+        ? (classes as PasswordCharacterClass[])
+        : DEFAULT_PASSWORD_POLICY.classes,
+    excludedCharacters:
+      typeof p.excludedCharacters === 'string'
+        ? p.excludedCharacters
+        : DEFAULT_PASSWORD_POLICY.excludedCharacters,
+  };
+}
+
+/**
+ * Reads a stored profile. Missing or malformed fields get their default, so incomplete or
+ * hand-edited profiles still load; validateTenantConfig reports invalid values.
+ */
+export function parseTenantConfig(value: unknown): TenantConfig {
+  const stored = (value !== null && typeof value === 'object' ? value : {}) as Record<
+    string,
+    unknown
+  >;
+  const attributeTargets = { ...DEFAULT_TENANT_CONFIG.attributeTargets };
+  const storedTargets = (stored.attributeTargets ?? {}) as Record<string, unknown>;
+  for (const key of CUSTOM_ATTRIBUTE_KEYS) {
+    const target = parseAttributeTarget(storedTargets[key]);
+    if (target) attributeTargets[key] = target;
+  }
+  const requiredFields = stringList(stored.requiredFields);
+  return {
+    upnDomains: stringList(stored.upnDomains) ?? DEFAULT_TENANT_CONFIG.upnDomains,
+    mailDomains: stringList(stored.mailDomains) ?? DEFAULT_TENANT_CONFIG.mailDomains,
+    maxRows: typeof stored.maxRows === 'number' ? stored.maxRows : DEFAULT_TENANT_CONFIG.maxRows,
+    attributeTargets,
+    requiredFields: requiredFields
+      ? CONFIGURABLE_REQUIRED_KEYS.filter((key) => requiredFields.includes(key))
+      : DEFAULT_TENANT_CONFIG.requiredFields,
+    passwordPolicy: parsePasswordPolicy(stored.passwordPolicy),
+  };
+}
+
+const DOMAIN_REGEX = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+/** Schema extension ID: "{prefix}_{name}" (e.g. contoso_hrData or extabc123de_hrData). */
+const SCHEMA_EXTENSION_ID_REGEX = /^[A-Za-z][A-Za-z0-9]*_[A-Za-z][A-Za-z0-9]*$/;
+
+const SCHEMA_EXTENSION_PROPERTY_REGEX = /^[A-Za-z][A-Za-z0-9]*$/;
+
+/** Attribute set and attribute names: letters, digits and underscores, up to 32 characters. */
+const CUSTOM_SECURITY_ATTRIBUTE_NAME_REGEX = /^[A-Za-z0-9_]{1,32}$/;
+
+/** Returns the problem of a target, or null when it is valid. */
+function attributeTargetProblem(target: AttributeTarget): string | null {
+  switch (target.type) {
+    case 'extensionAttribute':
+      return Number.isInteger(target.number) &&
+        target.number >= MIN_EXTENSION_ATTRIBUTE &&
+        target.number <= MAX_EXTENSION_ATTRIBUTE
+        ? null
+        : `extension attribute must be ${MIN_EXTENSION_ATTRIBUTE}–${MAX_EXTENSION_ATTRIBUTE}`;
+    case 'schemaExtension':
+      if (!SCHEMA_EXTENSION_ID_REGEX.test(target.extensionId)) {
+        return 'schema extension ID must look like prefix_name (e.g. contoso_hrData)';
+      }
+      return SCHEMA_EXTENSION_PROPERTY_REGEX.test(target.property)
+        ? null
+        : 'schema extension property must be letters and digits, starting with a letter';
+    case 'customSecurityAttribute':
+      return CUSTOM_SECURITY_ATTRIBUTE_NAME_REGEX.test(target.attributeSet) &&
+        CUSTOM_SECURITY_ATTRIBUTE_NAME_REGEX.test(target.attribute)
+        ? null
+        : 'attribute set and attribute must be 1–32 letters, digits or underscores';
+  }
+}
+
+/** Returns the problems of a profile (empty when it is valid). Does not call Graph. */
+export function validateTenantConfig(config: TenantConfig): string[] {
+  const problems: string[] = [];
+  if (config.upnDomains.length === 0) problems.push('At least one UPN domain is required');
+  if (config.mailDomains.length === 0) problems.push('At least one mail domain is required');
+  const invalid = [...config.upnDomains, ...config.mailDomains].filter(
+    (d) => !DOMAIN_REGEX.test(d)
+  );
+  if (invalid.length > 0) problems.push(`Invalid domain(s): ${[...new Set(invalid)].join(', ')}`);
+
+  if (!Number.isInteger(config.maxRows) || config.maxRows < 1 || config.maxRows > MAX_ROWS_LIMIT) {
+    problems.push(`Max. rows must be a whole number from 1 to ${MAX_ROWS_LIMIT}`);
+  }
+
+  const used = new Map<string, UserAttributeKey>();
+  for (const key of CUSTOM_ATTRIBUTE_KEYS) {
+    const header = ATTRIBUTES[key].header;
+    const target = config.attributeTargets[key];
+    const problem = target ? attributeTargetProblem(target) : 'target is missing';
+    if (!target || problem) {
+      problems.push(`${header}: ${problem}`);
+      continue;
+    }
+    const property = attributeTargetProperty(target);
+    const other = used.get(property);
+    if (other) {
+      problems.push(
+        `${header} and ${ATTRIBUTES[other].header} use the same ${formatAttributeTarget(target)}`
+      );
+    }
+    used.set(property, key);
+  }
+
+  for (const problem of validatePasswordPolicy(config.passwordPolicy)) {
+    problems.push(`Password policy: ${problem}`);
+  }
+  return problems;
+}
+
+interface GraphDomain {
+  id?: string;
+  isVerified?: boolean;
+}
+
+/**
+ * Checks the profile's domains against the tenant's verified domains (GET /domains).
+ * Returns the problems (empty when every domain is verified).
+ */
+export async function checkTenantDomains(
+  config: TenantConfig,
+  session: TokenSession,
+  options: GraphRequestOptions = {}
+): Promise<string[]> {
+  const { response } = await graphFetch(
+    `${GRAPH_BASE_URL}/domains?$select=id,isVerified`,
+    { method: 'GET' },
+    session,
+    options
+  );
+  if (!response.ok) {
+    throw new Error(await parseGraphErrorResponse(response));
+  }
+  const data = (await response.json()) as { value?: GraphDomain[] };
+  const verified = new Set(
+    (data.value ?? []).filter((d) => d.isVerified && d.id).map((d) => d.id!.toLowerCase())
+  );
+
+  const problems: string[] = [];
+  const unverified = (domains: string[]) => domains.filter((d) => !verified.has(d));
+  const upn = unverified(config.upnDomains);
+  if (upn.length > 0) {
+    problems.push(`UPN domain(s) not verified in this tenant: ${upn.join(', ')}`);
+  }
+  const mail = unverified(config.mailDomains);
+  if (mail.length > 0) {
+    problems.push(`Mail domain(s) not verified in this tenant: ${mail.join(', ')}`);
+  }
+  return problems;
+}
@@ -0,0 +1,85 @@
+/**
+ * Access token handling for long-running Graph runs (Create, Update, Load).
+ * A token session asks the token provider for a token before every Graph request,
+ * so MSAL can hand out a renewed token once the cached one is about to expire.
+ * After a 401 the session forces a refresh.
+ */
+
+/** Why the token used for a request differs from the one used before. */
+export type TokenEvent = 'renewed' | 'refreshed after 401';
+
+export interface TokenUsage {
+  /** Minutes since the token was issued (iat claim), or null if the token cannot be decoded. */
+  ageMinutes: number | null;
+  /** Set when this request used a different token than the previous request. */
+  event: TokenEvent | null;
+}
+
+export interface TokenInfo extends TokenUsage {
+  accessToken: string;
+}
+
+/** Returns an access token; forceRefresh bypasses the token cache. */
+export type AccessTokenProvider = (forceRefresh: boolean) => Promise<string>;
+
+export interface TokenSession {
+  /** Gets the token for the next request. Pass forceRefresh after a 401. */
+  getToken(forceRefresh?: boolean): Promise<TokenInfo>;
+}
+
+/** Reads the iat claim (seconds since epoch) from a JWT access token. */
+function getIssuedAt(accessToken: string): number | null {
+  const payload = accessToken.split('.')[1];
+  if (!payload) return null;
+  try {
+    const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/'));
+    const claims = JSON.parse(json) as { iat?: number };
+    return typeof claims.iat === 'number' ? claims.iat : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Creates a token session on top of the given token provider (e.g. AuthContext.getAccessToken). */
+export function createTokenSession(provider: AccessTokenProvider): TokenSession {
+  let lastToken: string | null = null;
+
+  async function getToken(forceRefresh = false): Promise<TokenInfo> {
+    const accessToken = await provider(forceRefresh);
+    // A forced refresh may still return the same token; only a new token is reported.
+    const changed = lastToken !== null && accessToken !== lastToken;
+    const event: TokenEvent | null = !changed
+      ? null
+      : forceRefresh
+        ? 'refreshed after 401'
+        : 'renewed';
+    lastToken = accessToken;
+
+    const issuedAt = getIssuedAt(accessToken);
+    const ageMinutes =
+      issuedAt !== null ? Math.max(0, Math.floor((Date.now() / 1000 - issuedAt) / 60)) : null;
+    return { accessToken, ageMinutes, event };
+  }
+
+  return { getToken };
+}
+
+/**
+ * Combines the token usage of several requests made for one row:
+ * keeps the age of the last request and the most recent refresh event.
+ */
+export function mergeTokenUsage(
+  earlier: TokenUsage | null,
+  later: TokenUsage | null
+): TokenUsage | null {
+  if (!earlier) return later;
+  if (!later) return earlier;
+  return { ageMinutes: later.ageMinutes, event: later.event ?? earlier.event };
+}
+
+/** Formats token usage for the run log, e.g. "42 min" or "0 min (refreshed after 401)". */
+export function formatTokenUsage(usage: TokenUsage | null): string {
+  if (!usage) return '';
+  const age = usage.ageMinutes !== null ? `${usage.ageMinutes} min` : 'unknown age';
+  return usage.event ? `${age} (${usage.event})` : age;
+}
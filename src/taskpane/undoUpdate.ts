@@ -0,0 +1,131 @@
+/**
+ * Undo of an Update run: reverts the changes recorded in an Update_<timestamp> log sheet.
+ * Each user is re-read first; only users whose current values still equal what the run
+ * wrote (the after-image) are reverted to the before-image. The revert itself goes through
+ * updateUsers, so it uses the same PATCH mapping, manager handling and conflict check.
+ */
+
+import type { TokenSession } from './tokenSession';
+import { loadUsersByObjectId, type LoadUserOutcome, type LoadUsersOptions } from './loadUsers';
+import { checkManagers } from './managerAssignment';
+import { updateUsers, type UpdateUserResult } from './updateUser';
+import {
+  createSnapshotEntry,
+  setSnapshotEntry,
+  type AttributeChange,
+  type AttributeConflict,
+  type UpdateSnapshot,
+} from './updateSnapshot';
+import { UPDATE_TABLE } from './userAttributes';
+
+const COL = UPDATE_TABLE.col;
+
+/** A logged row of an Update run with the changes it applied. */
+export interface UpdateRunEntry {
+  objectId: string;
+  userPrincipalName: string;
+  /** Applied changes: oldValue is the before-image, newValue the after-image. */
+  changes: AttributeChange[];
+  /** Why the logged row cannot be undone (e.g. an unknown attribute); it is not reverted. */
+  error?: string;
+}
+
+/**
+ * Reverts the given Update run entries. Returns one UpdateUserResult per entry, in input order:
+ * 'error' for entries with an error, 'conflict' when a changed attribute no longer has the value the run wrote
+ * (conflicts: loadedValue = after-image, currentValue, desiredValue = before-image),
+ * otherwise the result of the revert (changes/appliedChanges go from after- to before-image).
+ */
+export async function undoUpdateRun(
+  entries: UpdateRunEntry[],
+  session: TokenSession,
+  options: LoadUsersOptions = {}
+): Promise<UpdateUserResult[]> {
+  const results: (UpdateUserResult | null)[] = entries.map((entry) =>
+    entry.error ? resultWithoutRevert('error', entry.error) : null
+  );
+  const toRead = entries.flatMap((entry, i) => (entry.error ? [] : [i]));
+  const loaded = await loadUsersByObjectId(
+    toRead.map((i) => entries[i]!.objectId),
+    session,
+    options
+  );
+  const current = entries.map(() => null as LoadUserOutcome | null);
+  toRead.forEach((entryIndex, k) => (current[entryIndex] = loaded[k]!));
+
+  const revertIndices: number[] = [];
+  const revertRows: string[][] = [];
+  const snapshot: UpdateSnapshot = new Map();
+  const loadedAt = new Date().toISOString();
+  entries.forEach((entry, i) => {
+    const outcome = current[i];
+    if (!outcome) return;
+    if (!outcome.success) {
+      results[i] = resultWithoutRevert('error', `Re-reading the user failed: ${outcome.error}`);
+      return;
+    }
+    const conflicts: AttributeConflict[] = entry.changes
+      .filter((c) => (outcome.values[c.index] ?? '') !== c.newValue)
+      .map((c) => ({
+        index: c.index,
+        name: c.name,
+        loadedValue: c.newValue,
+        currentValue: outcome.values[c.index] ?? '',
+        desiredValue: c.oldValue,
+      }));
+    if (conflicts.length > 0) {
+      results[i] = {
+        ...resultWithoutRevert(
+          'conflict',
+          'Changed in Entra ID since the Update run; not reverted'
+        ),
+        conflicts,
+      };
+      return;
+    }
+    // The current values are the baseline; the row asks for the before-image.
+    const row = [...outcome.values];
+    for (const change of entry.changes) {
+      row[change.index] = change.oldValue;
+    }
+    setSnapshotEntry(snapshot, createSnapshotEntry(entry.objectId, loadedAt, outcome.values));
+    revertIndices.push(i);
+    revertRows.push(row);
+  });
+
+  if (revertRows.length > 0) {
+    const managers = await checkManagers(
+      revertRows.map((row, k) => ({
+        managerUpn: entries[revertIndices[k]!]!.changes.some((c) => c.index === COL.managerUpn)
+          ? row[COL.managerUpn] ?? ''
+          : '',
+        objectId: row[COL.objectId],
+      })),
+      session,
+      options
+    );
+    const reverted = await updateUsers(revertRows, session, {
+      ...options,
+      snapshot,
+      managers: managers.resolution,
+    });
+    revertIndices.forEach((entryIndex, k) => {
+      results[entryIndex] = reverted[k]!;
+    });
+  }
+
+  return results.map((r) => r ?? resultWithoutRevert('error', 'No response received'));
+}
+
+function resultWithoutRevert(status: 'error' | 'conflict', error: string): UpdateUserResult {
+  return {
+    status,
+    error,
+    changes: [],
+    conflicts: [],
+    appliedChanges: [],
+    managerResult: null,
+    retries: 0,
+    token: null,
+  };
+}
@@ -0,0 +1,179 @@
+/**
+ * Snapshot of the values Load Data loaded for each user of the UpdateUsers table.
+ * Update compares the table against it and only sends the attributes that changed.
+ * The fingerprint of the loaded values lets Update detect users changed in Entra ID since then.
+ * Persisted in the workbook by excelUpdateSnapshot.ts.
+ */
+
+import { UPDATE_TABLE } from './userAttributes';
+
+type UpdateTableKey = (typeof UPDATE_TABLE.keys)[number];
+
+export interface UpdateSnapshotEntry {
+  objectId: string;
+  /** ISO timestamp of the Load Data run (or the Update run that last refreshed the entry). */
+  loadedAt: string;
+  /** Loaded values in UPDATE_TABLE layout order (Object ID first). */
+  values: string[];
+  /** Fingerprint of the values (see fingerprintValues). */
+  fingerprint: string;
+}
+
+/** Snapshot entries keyed by the lower-cased Object ID. */
+export type UpdateSnapshot = Map<string, UpdateSnapshotEntry>;
+
+/** An attribute whose table value differs from the snapshot. */
+export interface AttributeChange {
+  /** Column index in UPDATE_TABLE layout order. */
+  index: number;
+  /** Column header, e.g. "Job Title". */
+  name: string;
+  oldValue: string;
+  newValue: string;
+}
+
+/** An attribute changed in Entra ID since Load Data, with the value the table asks for. */
+export interface AttributeConflict {
+  /** Column index in UPDATE_TABLE layout order. */
+  index: number;
+  /** Column header, e.g. "Job Title". */
+  name: string;
+  loadedValue: string;
+  currentValue: string;
+  desiredValue: string;
+}
+
+/** FNV-1a hash (hex) of the values; equal values give an equal fingerprint. */
+export function fingerprintValues(values: string[]): string {
+  const text = JSON.stringify(values);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+}
+
+export function createSnapshotEntry(
+  objectId: string,
+  loadedAt: string,
+  values: string[]
+): UpdateSnapshotEntry {
+  return { objectId, loadedAt, values, fingerprint: fingerprintValues(values) };
+}
+
+export function getSnapshotEntry(
+  snapshot: UpdateSnapshot,
+  objectId: string
+): UpdateSnapshotEntry | undefined {
+  return snapshot.get(objectId.trim().toLowerCase());
+}
+
+export function setSnapshotEntry(snapshot: UpdateSnapshot, entry: UpdateSnapshotEntry): void {
+  snapshot.set(entry.objectId.trim().toLowerCase(), entry);
+}
+
+/**
+ * Returns a copy of the entry with the changes applied (after a successful Update).
+ * The new values are in the form Load Data reads back (see getRowChanges), so the fingerprint
+ * matches the next re-read.
+ */
+export function applyChangesToSnapshotEntry(
+  entry: UpdateSnapshotEntry,
+  changes: AttributeChange[],
+  updatedAt: string
+): UpdateSnapshotEntry {
+  const values = [...entry.values];
+  for (const change of changes) {
+    values[change.index] = change.newValue;
+  }
+  return createSnapshotEntry(entry.objectId, updatedAt, values);
+}
+
+/** Formats changes for the run log, e.g. "Job Title: Agent → Team Lead; City: (empty) → Berlin". */
+export function formatAttributeChanges(changes: AttributeChange[]): string {
+  const show = (value: string) => (value === '' ? '(empty)' : value);
+  return changes
+    .map((c) => `${c.name}: ${show(c.oldValue)} → ${show(c.newValue)}`)
+    .join('; ');
+}
+
+/**
+ * Formats conflicts for the run log,
+ * e.g. "Job Title: loaded Agent | current Team Lead | desired Supervisor".
+ *
+ * @param labels - Labels for the loaded, current and desired values (Undo uses its own).
+ */
+export function formatAttributeConflicts(
+  conflicts: AttributeConflict[],
+  labels: [string, string, string] = ['loaded', 'current', 'desired']
+): string {
+  const show = (value: string) => (value === '' ? '(empty)' : value);
+  const [loaded, current, desired] = labels;
+  return conflicts
+    .map(
+      (c) =>
+        `${c.name}: ${loaded} ${show(c.loadedValue)} | ${current} ${show(c.currentValue)}` +
+        ` | ${desired} ${show(c.desiredValue)}`
+    )
+    .join('; ');
+}
+
+/**
+ * Serializes changes for the "Changes (JSON)" column of the Update run log (read by Undo).
+ * Each change is stored with its attribute key, not its column index, so logs stay readable
+ * when the layout gains columns.
+ */
+export function serializeAttributeChanges(changes: AttributeChange[]): string {
+  return changes.length > 0
+    ? JSON.stringify(
+        changes.map(({ index, name, oldValue, newValue }) => ({
+          key: UPDATE_TABLE.keys[index],
+          name,
+          oldValue,
+          newValue,
+        }))
+      )
+    : '';
+}
+
+/** Changes read from the Update run log, or why they cannot be undone. */
+export type ParsedAttributeChanges = { changes: AttributeChange[] } | { error: string };
+
+/**
+ * Parses the "Changes (JSON)" column of the Update run log and maps each change to its column in
+ * the current layout: by key, or by header for logs written before the key was stored.
+ * Returns an error when the text is not valid or an attribute is not in the current layout.
+ */
+export function parseAttributeChanges(json: string): ParsedAttributeChanges {
+  if (!json.trim()) return { changes: [] };
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return { error: 'Unreadable changes in the log' };
+  }
+  if (!Array.isArray(parsed)) return { error: 'Unreadable changes in the log' };
+  const changes: AttributeChange[] = [];
+  for (const item of parsed as Record<string, unknown>[]) {
+    if (item === null || typeof item !== 'object') {
+      return { error: 'Unreadable changes in the log' };
+    }
+    const key = typeof item.key === 'string' ? item.key : null;
+    const name = String(item.name ?? '');
+    const index =
+      key !== null
+        ? UPDATE_TABLE.keys.indexOf(key as UpdateTableKey)
+        : UPDATE_TABLE.headers.indexOf(name);
+    if (index < 0 || index === UPDATE_TABLE.col.objectId) {
+      return { error: `Unknown attribute '${key ?? name}' in the log; not reverted` };
+    }
+    changes.push({
+      index,
+      name: UPDATE_TABLE.headers[index]!,
+      oldValue: String(item.oldValue ?? ''),
+      newValue: String(item.newValue ?? ''),
+    });
+  }
+  return { changes };
+}
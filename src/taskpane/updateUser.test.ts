@@ -0,0 +1,43 @@
+import { describe, expect, test } from 'bun:test';
+import { DEFAULT_TENANT_CONFIG } from './tenantConfig';
+import { changesToGraphUpdateBody, getRowChanges } from './updateUser';
+import { UPDATE_TABLE } from './userAttributes';
+
+const COL = UPDATE_TABLE.col;
+
+const loaded = (values: Partial<Record<keyof typeof COL, string>>): string[] =>
+  UPDATE_TABLE.keys.map((key) => values[key] ?? '');
+
+describe('changesToGraphUpdateBody', () => {
+  test('sends both employeeOrgData properties when only the cost center changed', () => {
+    const values = loaded({ costCenter: 'CC-1', division: 'Sales' });
+    const row = [...values];
+    row[COL.costCenter] = 'CC-2';
+    const changes = getRowChanges(row, values);
+
+    expect(changes.map((c) => c.index)).toEqual([COL.costCenter]);
+    expect(changesToGraphUpdateBody(changes, row, DEFAULT_TENANT_CONFIG)).toEqual({
+      employeeOrgData: { costCenter: 'CC-2', division: 'Sales' },
+    });
+  });
+
+  test('sends both employeeOrgData properties when only the division was cleared', () => {
+    const values = loaded({ costCenter: 'CC-1', division: 'Sales' });
+    const row = [...values];
+    row[COL.division] = '';
+
+    expect(
+      changesToGraphUpdateBody(getRowChanges(row, values), row, DEFAULT_TENANT_CONFIG)
+    ).toEqual({ employeeOrgData: { costCenter: 'CC-1', division: null } });
+  });
+
+  test('leaves employeeOrgData out when neither property changed', () => {
+    const values = loaded({ jobTitle: 'Agent', costCenter: 'CC-1', division: 'Sales' });
+    const row = [...values];
+    row[COL.jobTitle] = 'Team Lead';
+
+    expect(
+      changesToGraphUpdateBody(getRowChanges(row, values), row, DEFAULT_TENANT_CONFIG)
+    ).toEqual({ jobTitle: 'Team Lead' });
+  });
+});
@@ -1,140 +1,418 @@
 /**
- * Update User via Microsoft Graph API (PATCH /users/{objectId}).
- * Maps UpdateUsers table columns to Graph user properties.
- * Empty columns are sent as null to clear the property.
+ * Update User via Microsoft Graph API (PATCH /users/{objectId}, sent through $batch).
+ * Compares each UpdateUsers row with the values Load Data loaded (the snapshot)
+ * and sends only the attributes that changed. A cleared cell clears the property;
+ * a cleared Manager UPN removes the manager. Users are re-read before the PATCH;
+ * users changed in Entra ID since Load Data are held back as conflicts.
  */
 
+import { cell } from './graphHelpers';
 import {
-  GRAPH_USERS_URL,
-  cell,
-  cellOrNull,
-  parseGraphErrorResponse,
-  toErrorMessage,
-} from './graphHelpers';
+  getBatchErrorMessage,
+  isBatchSuccess,
+  sendGraphBatch,
+  type GraphBatchRequest,
+} from './graphBatch';
+import type { TokenSession, TokenUsage } from './tokenSession';
+import {
+  assignManagers,
+  type ManagerAssignmentResult,
+  type ManagerResolution,
+} from './managerAssignment';
+import { loadUsersByObjectId, type LoadUserOutcome, type LoadUsersOptions } from './loadUsers';
+import {
+  fingerprintValues,
+  formatAttributeChanges,
+  formatAttributeConflicts,
+  getSnapshotEntry,
+  type AttributeChange,
+  type AttributeConflict,
+  type UpdateSnapshot,
+} from './updateSnapshot';
+import {
+  emptyRequestPreview,
+  formatRequestBody,
+  type RequestPreview,
+} from './requestPreview';
+import {
+  patchCompanions,
+  setGraphProperty,
+  tableAttributes,
+  toLoadedValue,
+  UPDATE_TABLE,
+  type GraphUserProperties,
+} from './userAttributes';
+import { DEFAULT_TENANT_CONFIG, type TenantConfig } from './tenantConfig';
 
 export interface UpdateUserResult {
-  status: 'success' | 'error';
+  /**
+   * 'skipped' when the row has no changes against the snapshot;
+   * 'conflict' when the user changed in Entra ID since Load Data (nothing is sent).
+   */
+  status: 'success' | 'error' | 'skipped' | 'conflict';
   error?: string;
+  /** Attributes that differ from the snapshot (what the row asked to change). */
+  changes: AttributeChange[];
+  /** Attributes changed in Entra ID since Load Data (status 'conflict'). */
+  conflicts: AttributeConflict[];
+  /** Changes Graph accepted; the snapshot is refreshed with these. */
+  appliedChanges: AttributeChange[];
+  /** Manager assignment; null when the Manager UPN did not change or the update failed. */
+  managerResult: ManagerAssignmentResult | null;
+  /** Number of throttling retries needed for this row's Graph request. */
+  retries: number;
+  /** Token used for this row's Graph request (age and refresh event for the run log). */
+  token: TokenUsage | null;
 }
 
-/** Column indices matching UPDATE_TABLE_HEADERS (Object ID at index 0). */
-const COL = {
-  objectId: 0,
-  userPrincipalName: 1,
-  mail: 2,
-  bmsId: 3,
-  localHrId: 4,
-  snTicketId: 5,
-  firstName: 6,
-  lastName: 7,
-  displayName: 8,
-  country: 9,
-  city: 10,
-  jobTitle: 11,
-  officeLocation: 12,
-  streetAddress: 13,
-  state: 14,
-  postalCode: 15,
-  businessPhone: 16,
-  mobilePhone: 17,
-  companyName: 18,
-  department: 19,
-} as const;
-
-interface GraphUpdateBody {
-  displayName: string | null;
-  mailNickname?: string;
-  userPrincipalName: string | null;
-  mail: string | null;
-  employeeId: string | null;
-  onPremisesExtensionAttributes: {
-    extensionAttribute14: string | null;
-    extensionAttribute15: string | null;
-  };
-  givenName: string | null;
-  surname: string | null;
-  country: string | null;
-  city: string | null;
-  jobTitle: string | null;
-  officeLocation: string | null;
-  streetAddress: string | null;
-  state: string | null;
-  postalCode: string | null;
-  businessPhones: string[];
-  mobilePhone: string | null;
-  companyName: string | null;
-  department: string | null;
-}
+const COL = UPDATE_TABLE.col;
 
-function rowToGraphUpdateBody(row: unknown[]): GraphUpdateBody {
-  const upn = cellOrNull(row, COL.userPrincipalName);
-  const mailNickname =
-    upn && upn.includes('@') ? upn.split('@')[0]! : undefined;
-
-  const businessPhone = cell(row, COL.businessPhone);
-
-  const body: GraphUpdateBody = {
-    displayName: cellOrNull(row, COL.displayName),
-    userPrincipalName: upn,
-    mail: cellOrNull(row, COL.mail),
-    employeeId: cellOrNull(row, COL.bmsId),
-    onPremisesExtensionAttributes: {
-      extensionAttribute14: cellOrNull(row, COL.localHrId),
-      extensionAttribute15: cellOrNull(row, COL.snTicketId),
-    },
-    givenName: cellOrNull(row, COL.firstName),
-    surname: cellOrNull(row, COL.lastName),
-    country: cellOrNull(row, COL.country),
-    city: cellOrNull(row, COL.city),
-    jobTitle: cellOrNull(row, COL.jobTitle),
-    officeLocation: cellOrNull(row, COL.officeLocation),
-    streetAddress: cellOrNull(row, COL.streetAddress),
-    state: cellOrNull(row, COL.state),
-    postalCode: cellOrNull(row, COL.postalCode),
-    businessPhones: businessPhone ? [businessPhone] : [],
-    mobilePhone: cellOrNull(row, COL.mobilePhone),
-    companyName: cellOrNull(row, COL.companyName),
-    department: cellOrNull(row, COL.department),
-  };
+/** Every UpdateUsers column after Object ID, in layout order. */
+const UPDATE_ATTRIBUTES = UPDATE_TABLE.headers
+  .map((name, index) => ({ index, name }))
+  .filter(({ index }) => index !== COL.objectId);
 
-  if (mailNickname) {
-    body.mailNickname = mailNickname;
+/**
+ * Returns the attributes of a row that differ from the loaded values (trimmed, case-sensitive).
+ * newValue is the value as Entra ID will store it (see toLoadedValue). Columns the table lacks
+ * (undefined cells, see toLayoutOrder) are never changes.
+ *
+ * @param loadedValues - Snapshot values in UPDATE_TABLE layout order.
+ */
+export function getRowChanges(row: unknown[], loadedValues: string[]): AttributeChange[] {
+  const changes: AttributeChange[] = [];
+  for (const { index, name } of UPDATE_ATTRIBUTES) {
+    if (row[index] === undefined) continue;
+    const oldValue = String(loadedValues[index] ?? '').trim();
+    // Compare in the form Entra ID stores, so e.g. an Excel date equal to the loaded one is no change.
+    const newValue = toLoadedValue('update', index, cell(row, index));
+    if (oldValue !== newValue) {
+      changes.push({ index, name, oldValue, newValue });
+    }
   }
+  return changes;
+}
 
-  return body;
+/**
+ * Returns the attributes whose current directory value differs from the loaded one,
+ * with the value the row asks for.
+ *
+ * @param loadedValues - Snapshot values in UPDATE_TABLE layout order.
+ * @param currentValues - Values re-read from Entra ID, in the same order.
+ */
+function getRowConflicts(
+  row: unknown[],
+  loadedValues: string[],
+  currentValues: string[]
+): AttributeConflict[] {
+  const conflicts: AttributeConflict[] = [];
+  for (const { index, name } of UPDATE_ATTRIBUTES) {
+    if (row[index] === undefined) continue;
+    const loadedValue = loadedValues[index] ?? '';
+    const currentValue = currentValues[index] ?? '';
+    if (loadedValue !== currentValue) {
+      conflicts.push({ index, name, loadedValue, currentValue, desiredValue: cell(row, index) });
+    }
+  }
+  return conflicts;
 }
 
-export async function updateUser(
+/** Changes of all rows against the snapshot, with counts for the Update card. */
+export interface PendingChanges {
+  /** Per row: the changed attributes, or null when the row has no loaded values. */
+  rowChanges: (AttributeChange[] | null)[];
+  changedRows: number;
+  changedAttributes: number;
+  /** Rows without changes; Update skips them. */
+  unchangedRows: number;
+  /** Rows without loaded values (Load Data not run for them); Update reports them as errors. */
+  notLoadedRows: number;
+}
+
+export function getPendingChanges(rows: unknown[][], snapshot: UpdateSnapshot): PendingChanges {
+  const pending: PendingChanges = {
+    rowChanges: [],
+    changedRows: 0,
+    changedAttributes: 0,
+    unchangedRows: 0,
+    notLoadedRows: 0,
+  };
+  for (const row of rows) {
+    const entry = getSnapshotEntry(snapshot, cell(row, COL.objectId));
+    if (!entry) {
+      pending.rowChanges.push(null);
+      pending.notLoadedRows++;
+      continue;
+    }
+    const changes = getRowChanges(row, entry.values);
+    pending.rowChanges.push(changes);
+    if (changes.length > 0) {
+      pending.changedRows++;
+      pending.changedAttributes += changes.length;
+    } else {
+      pending.unchangedRows++;
+    }
+  }
+  return pending;
+}
+
+/**
+ * Builds the PATCH body for the changed attributes of a row; null when only the manager changed
+ * (Manager UPN has no property; it is set via manager/$ref). Attributes Graph replaces together
+ * with a changed one (see patchCompanions) are sent with their row value.
+ */
+export function changesToGraphUpdateBody(
+  changes: AttributeChange[],
   row: unknown[],
-  accessToken: string
-): Promise<UpdateUserResult> {
-  const objectId = cell(row, COL.objectId);
-  if (!objectId) {
-    return { status: 'error', error: 'Object ID is required' };
+  tenant: TenantConfig
+): GraphUserProperties | null {
+  const attributes = tableAttributes('update', tenant);
+  const body: GraphUserProperties = {};
+  const sent = new Set(changes.map((change) => change.index));
+  let hasProperties = false;
+  for (const change of changes) {
+    const attribute = attributes[change.index];
+    if (attribute?.property) {
+      setGraphProperty(body, attribute, change.newValue);
+      hasProperties = true;
+      for (const companion of patchCompanions(attributes, attribute)) {
+        if (sent.has(companion.index) || row[companion.index] === undefined) continue;
+        setGraphProperty(body, companion, cell(row, companion.index));
+        sent.add(companion.index);
+      }
+    }
+    if (change.index === COL.userPrincipalName && change.newValue.includes('@')) {
+      body.mailNickname = change.newValue.split('@')[0]!;
+    }
   }
+  return hasProperties ? body : null;
+}
 
-  const body = rowToGraphUpdateBody(row);
+export interface UpdateUsersOptions extends LoadUsersOptions {
+  /** Values loaded by Load Data; rows without an entry are not updated. */
+  snapshot: UpdateSnapshot;
+  /** Managers resolved by Verify (checkManagers); required when a Manager UPN changed. */
+  managers?: ManagerResolution;
+}
 
-  try {
-    const response = await fetch(
-      `${GRAPH_USERS_URL}/${encodeURIComponent(objectId)}`,
-      {
+function errorResult(
+  error: string,
+  changes: AttributeChange[] = [],
+  retries = 0,
+  token: TokenUsage | null = null
+): UpdateUserResult {
+  return {
+    status: 'error',
+    error,
+    changes,
+    conflicts: [],
+    appliedChanges: [],
+    managerResult: null,
+    retries,
+    token,
+  };
+}
+
+/**
+ * Computes the result of every row before anything is sent: rows without an Object ID or
+ * loaded values are errors, rows without changes are skipped, and the remaining users are
+ * re-read so users changed in Entra ID since Load Data become conflicts.
+ * Rows that stay 'success' are to be updated. Also returns the re-read outcome per row
+ * (null when the row was not re-read).
+ */
+async function planUpdates(
+  rows: unknown[][],
+  session: TokenSession,
+  options: UpdateUsersOptions
+): Promise<{ results: UpdateUserResult[]; current: (LoadUserOutcome | null)[] }> {
+  const results: UpdateUserResult[] = rows.map((row) => {
+    const objectId = cell(row, COL.objectId);
+    if (!objectId) {
+      return errorResult('Object ID is required');
+    }
+    const entry = getSnapshotEntry(options.snapshot, objectId);
+    if (!entry) {
+      return errorResult('No loaded values for this Object ID; run Load Data first');
+    }
+    const changes = getRowChanges(row, entry.values);
+    return changes.length === 0
+      ? {
+          status: 'skipped',
+          error: 'No changes',
+          changes,
+          conflicts: [],
+          appliedChanges: [],
+          managerResult: null,
+          retries: 0,
+          token: null,
+        }
+      : {
+          status: 'success',
+          changes,
+          conflicts: [],
+          appliedChanges: [],
+          managerResult: null,
+          retries: 0,
+          token: null,
+        };
+  });
+
+  // Re-read the users to update and hold back those changed in Entra ID since Load Data.
+  const toCheck = results.flatMap((result, i) => (result.status === 'success' ? [i] : []));
+  const current = await loadUsersByObjectId(
+    toCheck.map((i) => cell(rows[i] ?? [], COL.objectId)),
+    session,
+    options
+  );
+  const currentByRow: (LoadUserOutcome | null)[] = rows.map(() => null);
+  toCheck.forEach((rowIndex, k) => {
+    const outcome = current[k]!;
+    currentByRow[rowIndex] = outcome;
+    const row = rows[rowIndex] ?? [];
+    const result = results[rowIndex]!;
+    if (!outcome.success) {
+      results[rowIndex] = errorResult(`Re-reading the user failed: ${outcome.error}`, result.changes);
+      return;
+    }
+    const entry = getSnapshotEntry(options.snapshot, cell(row, COL.objectId))!;
+    if (fingerprintValues(outcome.values) === entry.fingerprint) return;
+    const conflicts = getRowConflicts(row, entry.values, outcome.values);
+    if (conflicts.length > 0) {
+      results[rowIndex] = {
+        ...result,
+        status: 'conflict',
+        error: 'Changed in Entra ID since Load Data; run Load Data again and re-apply the changes',
+        conflicts,
+      };
+    }
+  });
+
+  return { results, current: currentByRow };
+}
+
+/**
+ * Updates users for all given rows using Graph $batch PATCH requests with only the changed attributes,
+ * then sets or removes the manager where the Manager UPN changed.
+ * Rows without changes are skipped; rows whose user changed in Entra ID since Load Data
+ * (fingerprint of the re-read values differs) are returned as conflicts.
+ * Returns one result per row, in row order.
+ */
+export async function updateUsers(
+  rows: unknown[][],
+  session: TokenSession,
+  options: UpdateUsersOptions
+): Promise<UpdateUserResult[]> {
+  const { results } = await planUpdates(rows, session, options);
+
+  const requests: GraphBatchRequest[] = [];
+  results.forEach((result, i) => {
+    if (result.status !== 'success') return;
+    const body = changesToGraphUpdateBody(
+      result.changes,
+      rows[i] ?? [],
+      options.tenant ?? DEFAULT_TENANT_CONFIG
+    );
+    if (body) {
+      requests.push({
+        id: String(i),
         method: 'PATCH',
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(body),
-      }
+        url: `/users/${encodeURIComponent(cell(rows[i] ?? [], COL.objectId))}`,
+        body,
+      });
+    }
+  });
+
+  const patched = new Set<number>();
+  const responses = await sendGraphBatch(requests, session, options);
+  for (const [id, response] of responses) {
+    const index = Number(id);
+    const { retries, token } = response;
+    if (isBatchSuccess(response)) {
+      patched.add(index);
+      results[index] = { ...results[index]!, retries, token };
+    } else {
+      results[index] = errorResult(
+        getBatchErrorMessage(response),
+        results[index]!.changes,
+        retries,
+        token
+      );
+    }
+  }
+
+  const managerAssignments = await assignManagers(
+    results.map((result, i) => {
+      const managerChanged = result.changes.some((c) => c.index === COL.managerUpn);
+      return {
+        objectId:
+          result.status === 'success' && managerChanged ? cell(rows[i] ?? [], COL.objectId) : null,
+        managerUpn: cell(rows[i] ?? [], COL.managerUpn),
+        remove: true,
+      };
+    }),
+    options.managers ?? new Map(),
+    session,
+    options
+  );
+  managerAssignments.forEach(({ result: managerResult, retries }, i) => {
+    const result = results[i]!;
+    result.managerResult = managerResult;
+    result.retries += retries;
+    if (result.status !== 'success') return;
+    result.appliedChanges = result.changes.filter((c) =>
+      c.index === COL.managerUpn ? managerResult?.status !== 'error' : patched.has(i)
     );
+  });
 
-    if (response.ok) {
-      return { status: 'success' };
+  return results;
+}
+
+/**
+ * Previews updateUsers without changing anything: runs the same snapshot comparison and re-read,
+ * and builds the same PATCH bodies. Returns one preview per row, in row order.
+ */
+export async function previewUpdateUsers(
+  rows: unknown[][],
+  session: TokenSession,
+  options: UpdateUsersOptions
+): Promise<RequestPreview[]> {
+  const { results, current } = await planUpdates(rows, session, options);
+
+  return results.map((result, i) => {
+    const outcome = current[i];
+    const existence = !outcome
+      ? ''
+      : !outcome.success
+        ? `Re-read failed: ${outcome.error}`
+        : result.status === 'conflict'
+          ? 'Exists, changed since Load Data'
+          : 'Exists';
+    if (result.status !== 'success') {
+      const action = result.status === 'skipped' ? 'no-op' : result.status;
+      const note =
+        result.status === 'conflict'
+          ? `${result.error}: ${formatAttributeConflicts(result.conflicts)}`
+          : result.error ?? '';
+      return emptyRequestPreview(action, existence, note);
     }
 
-    const errorMessage = await parseGraphErrorResponse(response);
-    return { status: 'error', error: errorMessage };
-  } catch (err) {
-    return { status: 'error', error: toErrorMessage(err) };
-  }
+    const objectId = cell(rows[i] ?? [], COL.objectId);
+    const body = changesToGraphUpdateBody(
+      result.changes,
+      rows[i] ?? [],
+      options.tenant ?? DEFAULT_TENANT_CONFIG
+    );
+    const managerChange = result.changes.find((c) => c.index === COL.managerUpn);
+    return {
+      existence,
+      action: 'patch',
+      method: body ? 'PATCH' : '',
+      url: body ? `/users/${encodeURIComponent(objectId)}` : '',
+      body: body ? formatRequestBody(body) : '',
+      followUps: managerChange
+        ? [managerChange.newValue ? `Set manager: ${managerChange.newValue}` : 'Remove manager']
+        : [],
+      note: formatAttributeChanges(result.changes),
+    };
+  });
 }
@@ -0,0 +1,556 @@
+/**
+ * The user attributes of the Create and Update tables, declared once.
+ * The table layouts and templates, the verifier rules, the Graph create and PATCH bodies and the
+ * Load Data mapping are generated from USER_ATTRIBUTES; adding an attribute is a single entry.
+ * The tenant profile (tenantConfig.ts) decides which attributes are required and where the custom
+ * columns (Local HR ID, SN Ticket ID) are stored, so most helpers take the profile.
+ */
+
+import { cell } from './graphHelpers';
+import { parseDateCell, rowIssue, type RowIssue } from './verifyCore';
+import { columnLetter, defineTableLayout, type TableLayout } from './tableColumns';
+import type { TenantConfig } from './tenantConfig';
+
+export type UserTable = 'create' | 'update';
+
+/** A format rule checked for non-empty cells. */
+export interface AttributeCheck {
+  /** Rule code of the issue, e.g. "usage-location-format". */
+  rule: string;
+  message: string;
+  test: (value: string) => boolean;
+}
+
+export interface UserAttribute {
+  header: string;
+  /** Column width in the templates (pixels). */
+  width: number;
+  /** Tables that have the column. Update columns are loaded by Load Data and patched by Update. */
+  tables: readonly UserTable[];
+  /**
+   * Graph user property (dot-separated path), set on create and PATCH and read by Load Data.
+   * Missing for columns handled by their own requests (Groups, License SKUs, Manager UPN).
+   */
+  property?: string;
+  /**
+   * Default extension attribute (1–15) that holds the value, for custom columns without a
+   * property; the tenant profile can map it to another target (see AttributeTarget).
+   */
+  extensionAttribute?: number;
+  /** Path Load Data reads when the column is not a writable property (e.g. the Object ID). */
+  loadPath?: string;
+  /** The property is a string collection; the cell holds its first entry (Business Phone). */
+  collection?: boolean;
+  /** Converts the cell value before it is sent, e.g. to upper case. */
+  normalize?: (value: string) => string;
+  /** Converts the value Load Data reads into the cell value (the reverse of normalize). */
+  fromGraph?: (value: string) => string;
+  /**
+   * Graph permission the property needs besides User.*, e.g. User-LifeCycleInfo
+   * (requested as .Read.All for Load Data and .ReadWrite.All for Create and Update).
+   */
+  permission?: string;
+  /** Key of a date attribute in the same table this date must not be before. */
+  notBefore?: string;
+  /**
+   * Default requiredness (the tenant profile can change it);
+   * 'always' for attributes Graph needs on every user.
+   */
+  required?: boolean | 'always';
+  /** Values must be unique across the rows of a table. */
+  unique?: boolean;
+  /**
+   * The column was added after the first release, so older tables may lack it; Verify, Create
+   * and Update then read it as empty and leave the property untouched.
+   */
+  optional?: boolean;
+  checks?: readonly AttributeCheck[];
+}
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** ISO 3166-1 alpha-2 country code, as required by Graph for usageLocation. */
+const USAGE_LOCATION_REGEX = /^[A-Za-z]{2}$/;
+
+const BOTH = ['create', 'update'] as const;
+
+/** Date cell as ISO date (YYYY-MM-DD); serial numbers pasted into the text cells come as text. */
+function parseDateValue(value: string): string | null {
+  return parseDateCell(/^\d+(\.\d+)?$/.test(value) ? Number(value) : value);
+}
+
+/** Graph dates are DateTimeOffset values in UTC; the day starts at midnight UTC. */
+const toGraphDate = (value: string) => {
+  const date = parseDateValue(value);
+  return date ? `${date}T00:00:00Z` : value;
+};
+
+const fromGraphDate = (value: string) =>
+  /^\d{4}-\d{2}-\d{2}T/.test(value) ? value.slice(0, 10) : value;
+
+const dateCheck = (header: string): AttributeCheck => ({
+  rule: 'date-format',
+  message: `${header} must be a date (YYYY-MM-DD or an Excel date)`,
+  test: (v) => parseDateValue(v) !== null,
+});
+
+/** All attributes, in template column order (Object ID first, only in the Update table). */
+export const USER_ATTRIBUTES = {
+  objectId: {
+    header: 'Object ID',
+    width: 210,
+    tables: ['update'],
+    loadPath: 'id',
+    required: 'always',
+    unique: true,
+    checks: [
+      {
+        rule: 'object-id-format',
+        message: 'Object ID must be a valid UUID',
+        test: (v) => UUID_REGEX.test(v),
+      },
+    ],
+  },
+  userPrincipalName: {
+    header: 'User Principal Name',
+    width: 150,
+    tables: BOTH,
+    property: 'userPrincipalName',
+    required: 'always',
+    unique: true,
+  },
+  mail: { header: 'Mail', width: 200, tables: BOTH, property: 'mail', required: true, unique: true },
+  bmsId: { header: 'BMS ID', width: 70, tables: BOTH, property: 'employeeId', unique: true },
+  localHrId: {
+    header: 'Local HR ID',
+    width: 70,
+    tables: BOTH,
+    extensionAttribute: 14,
+    unique: true,
+  },
+  snTicketId: {
+    header: 'SN Ticket ID',
+    width: 90,
+    tables: BOTH,
+    extensionAttribute: 15,
+  },
+  firstName: { header: 'First Name', width: 90, tables: BOTH, property: 'givenName', required: true },
+  lastName: { header: 'Last Name', width: 90, tables: BOTH, property: 'surname', required: true },
+  displayName: {
+    header: 'Display Name',
+    width: 130,
+    tables: BOTH,
+    property: 'displayName',
+    required: 'always',
+  },
+  country: { header: 'Country', width: 100, tables: BOTH, property: 'country', required: true },
+  city: { header: 'City', width: 100, tables: BOTH, property: 'city', required: true },
+  jobTitle: { header: 'Job Title', width: 100, tables: BOTH, property: 'jobTitle' },
+  officeLocation: { header: 'Office Location', width: 100, tables: BOTH, property: 'officeLocation' },
+  streetAddress: { header: 'Street Address', width: 100, tables: BOTH, property: 'streetAddress' },
+  state: { header: 'State', width: 100, tables: BOTH, property: 'state' },
+  postalCode: { header: 'Postal Code', width: 100, tables: BOTH, property: 'postalCode' },
+  businessPhone: {
+    header: 'Business Phone',
+    width: 100,
+    tables: BOTH,
+    property: 'businessPhones',
+    collection: true,
+  },
+  mobilePhone: { header: 'Mobile Phone', width: 100, tables: BOTH, property: 'mobilePhone' },
+  companyName: { header: 'Company Name', width: 100, tables: BOTH, property: 'companyName' },
+  department: { header: 'Department', width: 100, tables: BOTH, property: 'department' },
+  employeeType: {
+    header: 'Employee Type',
+    width: 100,
+    tables: BOTH,
+    property: 'employeeType',
+    optional: true,
+  },
+  hireDate: {
+    header: 'Hire Date',
+    width: 90,
+    tables: BOTH,
+    property: 'employeeHireDate',
+    normalize: toGraphDate,
+    fromGraph: fromGraphDate,
+    optional: true,
+    checks: [dateCheck('Hire Date')],
+  },
+  leaveDate: {
+    header: 'Leave Date',
+    width: 90,
+    tables: BOTH,
+    property: 'employeeLeaveDateTime',
+    normalize: toGraphDate,
+    fromGraph: fromGraphDate,
+    permission: 'User-LifeCycleInfo',
+    notBefore: 'hireDate',
+    optional: true,
+    checks: [dateCheck('Leave Date')],
+  },
+  costCenter: {
+    header: 'Cost Center',
+    width: 100,
+    tables: BOTH,
+    property: 'employeeOrgData.costCenter',
+    optional: true,
+  },
+  division: {
+    header: 'Division',
+    width: 100,
+    tables: BOTH,
+    property: 'employeeOrgData.division',
+    optional: true,
+  },
+  groups: { header: 'Groups', width: 200, tables: ['create'], optional: true },
+  licenseSkus: { header: 'License SKUs', width: 160, tables: ['create'], optional: true },
+  usageLocation: {
+    header: 'Usage Location',
+    width: 100,
+    tables: ['create'],
+    property: 'usageLocation',
+    normalize: (v) => v.toUpperCase(),
+    optional: true,
+    checks: [
+      {
+        rule: 'usage-location-format',
+        message: 'Usage Location must be a two-letter country code (e.g. DE)',
+        test: (v) => USAGE_LOCATION_REGEX.test(v),
+      },
+    ],
+  },
+  managerUpn: {
+    header: 'Manager UPN',
+    width: 200,
+    tables: BOTH,
+    loadPath: 'manager.userPrincipalName',
+    optional: true,
+  },
+} as const satisfies Record<string, UserAttribute>;
+
+export type UserAttributeKey = keyof typeof USER_ATTRIBUTES;
+
+/** Keys of the attributes a table has. */
+type TableKeys<T extends UserTable> = {
+  [K in UserAttributeKey]: T extends (typeof USER_ATTRIBUTES)[K]['tables'][number] ? K : never;
+}[UserAttributeKey];
+
+const ATTRIBUTES: Record<UserAttributeKey, UserAttribute> = USER_ATTRIBUTES;
+
+function tableKeys<T extends UserTable>(table: T): TableKeys<T>[] {
+  return (Object.keys(ATTRIBUTES) as UserAttributeKey[]).filter((key) =>
+    ATTRIBUTES[key].tables.includes(table)
+  ) as TableKeys<T>[];
+}
+
+function userTableLayout<T extends UserTable>(table: T): TableLayout<TableKeys<T>> {
+  const keys = tableKeys(table);
+  const headers = {} as Record<TableKeys<T>, string>;
+  for (const key of keys) headers[key] = ATTRIBUTES[key].header;
+  return defineTableLayout(headers, keys.filter((key) => ATTRIBUTES[key].optional));
+}
+
+export const CREATE_TABLE = userTableLayout('create');
+
+export const UPDATE_TABLE = userTableLayout('update');
+
+// ─── Custom column targets ───────────────────────────────────────────
+
+/** Where a custom column is stored on the user. */
+export type AttributeTarget =
+  /** onPremisesExtensionAttributes.extensionAttribute1–15. */
+  | { type: 'extensionAttribute'; number: number }
+  /** A string property of a directory schema extension, e.g. contoso_hrData.localHrId. */
+  | { type: 'schemaExtension'; extensionId: string; property: string }
+  /** A string custom security attribute; reading and writing it needs extra permissions. */
+  | { type: 'customSecurityAttribute'; attributeSet: string; attribute: string };
+
+export type AttributeTargetType = AttributeTarget['type'];
+
+const CUSTOM_SECURITY_ATTRIBUTE_ODATA_TYPE = '#Microsoft.DirectoryServices.CustomSecurityAttributeValue';
+
+/** Graph property path of a target. */
+export function attributeTargetProperty(target: AttributeTarget): string {
+  switch (target.type) {
+    case 'extensionAttribute':
+      return `onPremisesExtensionAttributes.extensionAttribute${target.number}`;
+    case 'schemaExtension':
+      return `${target.extensionId}.${target.property}`;
+    case 'customSecurityAttribute':
+      return `customSecurityAttributes.${target.attributeSet}.${target.attribute}`;
+  }
+}
+
+/** Describes a target for template descriptions and messages, e.g. "extension attribute 15". */
+export function formatAttributeTarget(target: AttributeTarget): string {
+  switch (target.type) {
+    case 'extensionAttribute':
+      return `extension attribute ${target.number}`;
+    case 'schemaExtension':
+      return `schema extension ${target.extensionId}.${target.property}`;
+    case 'customSecurityAttribute':
+      return `custom security attribute ${target.attributeSet}/${target.attribute}`;
+  }
+}
+
+/** The target of a custom column in the schema (before the tenant profile is applied). */
+export function defaultAttributeTarget(key: UserAttributeKey): AttributeTarget | undefined {
+  const n = ATTRIBUTES[key].extensionAttribute;
+  return n === undefined ? undefined : { type: 'extensionAttribute', number: n };
+}
+
+// ─── Resolved attributes ─────────────────────────────────────────────
+
+/** An attribute with the tenant profile applied: requiredness and target resolved. */
+export interface ResolvedAttribute extends Omit<UserAttribute, 'required' | 'extensionAttribute'> {
+  key: UserAttributeKey;
+  required: boolean;
+  /** Target of a custom column; property holds its Graph path. */
+  target?: AttributeTarget;
+}
+
+/** An attribute of a table with its column index in the table layout. */
+export interface TableAttribute extends ResolvedAttribute {
+  index: number;
+}
+
+/** Applies the tenant profile to an attribute. */
+export function resolveAttribute(key: UserAttributeKey, tenant: TenantConfig): ResolvedAttribute {
+  const { required, extensionAttribute: _, ...attribute } = ATTRIBUTES[key];
+  const target = tenant.attributeTargets[key] ?? defaultAttributeTarget(key);
+  return {
+    ...attribute,
+    key,
+    required: required === 'always' || tenant.requiredFields.includes(key),
+    property: target ? attributeTargetProperty(target) : attribute.property,
+    permission:
+      target?.type === 'customSecurityAttribute' ? 'CustomSecAttributeAssignment' : attribute.permission,
+    target,
+  };
+}
+
+/** The attributes of a table, in layout order. */
+export function tableAttributes(table: UserTable, tenant: TenantConfig): TableAttribute[] {
+  return tableKeys(table).map((key, index) => ({ ...resolveAttribute(key, tenant), index }));
+}
+
+// ─── Templates ───────────────────────────────────────────────────────
+
+/** Column widths for initSheetTemplate, e.g. [['A:A', 150], ...]. */
+export function templateColumnWidths(table: UserTable): [string, number][] {
+  return tableKeys(table).map((key, index) => {
+    const letter = columnLetter(index);
+    return [`${letter}:${letter}`, ATTRIBUTES[key].width];
+  });
+}
+
+export function templateLastColumnLetter(table: UserTable): string {
+  return columnLetter(tableKeys(table).length - 1);
+}
+
+/** Headers of the required columns, for the template description. */
+export function requiredHeaders(table: UserTable, tenant: TenantConfig): string[] {
+  return tableAttributes(table, tenant)
+    .filter((a) => a.required)
+    .map((a) => a.header);
+}
+
+/** Headers of the columns that must be unique, for the template description. */
+export function uniqueHeaders(table: UserTable): string[] {
+  return tableKeys(table)
+    .filter((key) => ATTRIBUTES[key].unique)
+    .map((key) => ATTRIBUTES[key].header);
+}
+
+// ─── Verifier rules ──────────────────────────────────────────────────
+
+/** Required and unique columns and the format checks of a table, for createVerifier. */
+export function attributeVerifierConfig(
+  table: UserTable,
+  tenant: TenantConfig
+): {
+  requiredColumns: { index: number; name: string }[];
+  uniqueColumns: { index: number; name: string }[];
+  checkAttributes: (row: unknown[]) => RowIssue[];
+} {
+  const attributes = tableAttributes(table, tenant);
+  const column = ({ index, header }: TableAttribute) => ({ index, name: header });
+  const checkDateOrder = (row: unknown[], attribute: TableAttribute): RowIssue[] => {
+    const earlier = attributes.find((a) => a.key === attribute.notBefore);
+    if (!earlier) return [];
+    const date = parseDateValue(cell(row, attribute.index));
+    const earlierDate = parseDateValue(cell(row, earlier.index));
+    return date && earlierDate && date < earlierDate
+      ? [
+          rowIssue(
+            attribute.index,
+            'date-order',
+            `${attribute.header} must not be before ${earlier.header}`
+          ),
+        ]
+      : [];
+  };
+  return {
+    requiredColumns: attributes.filter((a) => a.required).map(column),
+    uniqueColumns: attributes.filter((a) => a.unique).map(column),
+    checkAttributes: (row) =>
+      attributes.flatMap((attribute) => {
+        const { index, checks } = attribute;
+        const value = cell(row, index);
+        if (value === '') return [];
+        return [
+          ...(checks ?? [])
+            .filter((check) => !check.test(value))
+            .map((check) => rowIssue(index, check.rule, check.message)),
+          ...checkDateOrder(row, attribute),
+        ];
+      }),
+  };
+}
+
+// ─── Graph mapping ───────────────────────────────────────────────────
+
+/** Graph user properties (nested objects for dot-separated paths). */
+export type GraphUserProperties = Record<string, unknown>;
+
+function setPath(target: GraphUserProperties, path: string, value: unknown): void {
+  const parts = path.split('.');
+  let node = target;
+  for (const part of parts.slice(0, -1)) {
+    node = (node[part] ??= {}) as GraphUserProperties;
+  }
+  node[parts[parts.length - 1]!] = value;
+}
+
+function getPath(source: unknown, path: string): unknown {
+  let node = source;
+  for (const part of path.split('.')) {
+    if (node === null || typeof node !== 'object') return undefined;
+    node = (node as Record<string, unknown>)[part];
+  }
+  return node;
+}
+
+/**
+ * Sets the Graph property of an attribute from a cell value. An empty value clears the
+ * property (null, or an empty collection); on create, leave empty values out instead.
+ */
+export function setGraphProperty(
+  body: GraphUserProperties,
+  attribute: ResolvedAttribute,
+  value: string
+): void {
+  if (!attribute.property) return;
+  const normalized = value && attribute.normalize ? attribute.normalize(value) : value;
+  if (attribute.collection) {
+    setPath(body, attribute.property, normalized ? [normalized] : []);
+  } else {
+    setPath(body, attribute.property, normalized === '' ? null : normalized);
+  }
+  if (attribute.target?.type === 'customSecurityAttribute') {
+    // Graph needs the type of each attribute set it writes ("@odata.type" is a single key).
+    const sets = body.customSecurityAttributes as GraphUserProperties;
+    const set = sets[attribute.target.attributeSet] as GraphUserProperties;
+    set['@odata.type'] = CUSTOM_SECURITY_ATTRIBUTE_ODATA_TYPE;
+  }
+}
+
+/** Complex properties Graph replaces as a whole on PATCH (a partial object clears the rest). */
+const WHOLE_PATCH_PROPERTIES = ['employeeOrgData'];
+
+/**
+ * The other attributes stored in the same complex property as the given one when Graph replaces
+ * that property as a whole (Cost Center and Division in employeeOrgData); a PATCH that changes
+ * one of them must send all of them.
+ */
+export function patchCompanions(
+  attributes: readonly TableAttribute[],
+  attribute: TableAttribute
+): TableAttribute[] {
+  const parent = attribute.property?.split('.')[0];
+  if (!parent || !WHOLE_PATCH_PROPERTIES.includes(parent) || attribute.target) return [];
+  return attributes.filter(
+    (a) => a.index !== attribute.index && !a.target && a.property?.startsWith(`${parent}.`)
+  );
+}
+
+/** Graph properties of a new user for the non-empty cells of a Create row. */
+export function rowToGraphProperties(row: unknown[], tenant: TenantConfig): GraphUserProperties {
+  const body: GraphUserProperties = {};
+  for (const attribute of tableAttributes('create', tenant)) {
+    const value = cell(row, attribute.index);
+    if (value) setGraphProperty(body, attribute, value);
+  }
+  return body;
+}
+
+/**
+ * Fields Load Data selects: the top-level properties of the Update attributes (including the
+ * schema extension and customSecurityAttributes of mapped custom columns, which Graph only
+ * returns when selected). The manager is not a property; it is loaded through $expand.
+ *
+ * @param keys - Attributes in use (see attributeScopes); attributes that need an extra permission
+ * are only selected when in use, so their values stay empty otherwise. Defaults to all.
+ */
+export function loadSelectFields(
+  tenant: TenantConfig,
+  keys?: readonly UserAttributeKey[]
+): string[] {
+  return [
+    ...new Set(
+      tableAttributes('update', tenant)
+        .filter((a) => !a.permission || !keys || keys.includes(a.key))
+        .map((a) => (a.loadPath ?? a.property ?? '').split('.')[0]!)
+        .filter((field) => field !== '' && field !== 'manager')
+    ),
+  ];
+}
+
+/** Maps a Graph user to UPDATE_TABLE values (layout order). */
+export function graphUserToValues(user: unknown, tenant: TenantConfig): string[] {
+  return tableAttributes('update', tenant).map((attribute) => {
+    const path = attribute.loadPath ?? attribute.property;
+    const value = path ? getPath(user, path) : undefined;
+    const first = attribute.collection && Array.isArray(value) ? value[0] : value;
+    if (first == null) return '';
+    return attribute.fromGraph ? attribute.fromGraph(String(first)) : String(first);
+  });
+}
+
+/**
+ * The value Load Data reads back after a cell value was written, e.g. "2024-01-15" for the
+ * Excel date 45306, so the snapshot and the change comparison match what Entra ID stores.
+ */
+export function toLoadedValue(table: UserTable, index: number, value: string): string {
+  const key = tableKeys(table)[index];
+  if (value === '' || key === undefined) return value;
+  const { normalize, fromGraph } = ATTRIBUTES[key];
+  const graphValue = normalize ? normalize(value) : value;
+  return fromGraph ? fromGraph(graphValue) : graphValue;
+}
+
+/** Keys of the attributes filled in at least one row of a table (rows in layout order). */
+export function filledKeys(table: UserTable, rows: unknown[][]): UserAttributeKey[] {
+  return tableKeys(table).filter((_, index) => rows.some((row) => cell(row, index) !== ''));
+}
+
+/**
+ * Delegated scopes the attributes in use need besides User.* (e.g. the leave date, custom
+ * security attributes); the signed-in user may also need a matching admin role.
+ * Only the given keys count, e.g. the columns a table has or the values a run writes, so tenants
+ * that do not use such an attribute need no consent for it.
+ */
+export function attributeScopes(
+  tenant: TenantConfig,
+  access: 'read' | 'write',
+  keys: readonly UserAttributeKey[]
+): string[] {
+  const permissions = new Set(
+    keys
+      .map((key) => resolveAttribute(key, tenant).permission)
+      .filter((permission) => permission !== undefined)
+  );
+  const suffix = access === 'read' ? '.Read.All' : '.ReadWrite.All';
+  return [...permissions].map((permission) => `${permission}${suffix}`);
+}
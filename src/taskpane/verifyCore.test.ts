@@ -0,0 +1,31 @@
+import { describe, expect, test } from 'bun:test';
+import { DEFAULT_TENANT_CONFIG } from './tenantConfig';
+import { createVerifier } from './verifyCore';
+
+const verifier = (tenant = DEFAULT_TENANT_CONFIG) =>
+  createVerifier({
+    tenant,
+    requiredColumns: [{ index: 0, name: 'User Principal Name' }],
+    uniqueColumns: [],
+  });
+
+describe('createVerifier', () => {
+  test('passes valid rows with a valid tenant profile', () => {
+    const result = verifier().verify([['a@contoso.com']]);
+    expect(result.success).toBe(true);
+    expect(result.tenantProblems).toEqual([]);
+  });
+
+  test('fails valid rows when the tenant profile is invalid', () => {
+    const tenant = {
+      ...DEFAULT_TENANT_CONFIG,
+      passwordPolicy: { ...DEFAULT_TENANT_CONFIG.passwordPolicy, length: 4 },
+    };
+    const result = verifier(tenant).verify([['a@contoso.com']]);
+
+    expect(result.success).toBe(false);
+    expect(result.problemCount).toBe(0);
+    expect(result.tenantProblems).toHaveLength(1);
+    expect(result.tenantProblems?.[0]).toStartWith('Password policy: Length must be');
+  });
+});
@@ -1,19 +1,55 @@
 /**
- * Shared verification engine for user tables (Create and Update).
+ * Shared verification engine for user tables (Create, Update, and Offboard).
  * Provides a factory function that creates a verifier based on column configuration.
  */
 
-export const UPN_DOMAIN = 'majorel.com';
-export const MAIL_DOMAINS = ['majorel.com', 'mj.teleperformance.com'] as const;
-export const MAX_DATA_ROWS = 100;
+import { TableColumnsError } from './tableColumns';
+import { validateTenantConfig, type TenantConfig } from './tenantConfig';
+
+export type IssueSeverity = 'error' | 'warning' | 'info';
+
+/** A validation issue of a single row (the row index is added by the verifier). */
+export interface RowIssue {
+  /**
+   * Column index in the table layout (see tableColumns.ts);
+   * null when the issue does not belong to a single cell.
+   */
+  column: number | null;
+  /** Stable rule code, e.g. "required" or "upn-domain". */
+  rule: string;
+  /** Only errors block Create and Update; warnings and info are shown in the notes. */
+  severity: IssueSeverity;
+  message: string;
+}
+
+export interface ValidationIssue extends RowIssue {
+  /** 0-based row index (in the rows array). */
+  row: number;
+}
+
+export function rowIssue(
+  column: number | null,
+  rule: string,
+  message: string,
+  severity: IssueSeverity = 'error'
+): RowIssue {
+  return { column, rule, severity, message };
+}
 
 export interface VerifyUsersResult {
   success: boolean;
   totalRows: number;
+  /** Rows without errors (rows with only warnings or info count as ok). */
   okCount: number;
   problemCount: number;
   /** 0-based row indices (in the rows array) that have validation errors */
   problemRowIndices: number[];
+  /** All issues of all rows (errors, warnings and info), in row order. */
+  issues: ValidationIssue[];
+  /** Batch-level warnings that do not block the run (e.g. not enough license seats). */
+  warnings?: string[];
+  /** Problems of the tenant profile (see validateTenantConfig); they block the run. */
+  tenantProblems?: string[];
   /** true when the input table was not found (no data) */
   noInputTable?: boolean;
 }
@@ -26,10 +62,27 @@ export function noInputTableResult(): VerifyUsersResult {
     okCount: 0,
     problemCount: 0,
     problemRowIndices: [],
+    issues: [],
     noInputTable: true,
   };
 }
 
+/**
+ * Result for a Verify that could not run. A table whose headers do not match its layout
+ * is reported as a warning, so the panel tells what to fix.
+ */
+export function failedVerifyResult(err: unknown): VerifyUsersResult {
+  return {
+    success: false,
+    totalRows: 0,
+    okCount: 0,
+    problemCount: 0,
+    problemRowIndices: [],
+    issues: [],
+    warnings: err instanceof TableColumnsError ? [err.message] : [],
+  };
+}
+
 // ─── Shared helpers ──────────────────────────────────────────────────
 
 export function cellValue(row: unknown[], index: number): string {
@@ -37,6 +90,35 @@ export function cellValue(row: unknown[], index: number): string {
   return String(raw ?? '').trim();
 }
 
+/** Formats a domain list for messages and descriptions ("a", "a or b", "a, b or c"). */
+export function formatDomainList(domains: readonly string[]): string {
+  if (domains.length < 2) return domains.join('');
+  return `${domains.slice(0, -1).join(', ')} or ${domains[domains.length - 1]}`;
+}
+
+const ISO_DATE_REGEX = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/** Days between the Excel epoch (1899-12-30, accounting for the 1900 leap year bug) and 1970-01-01. */
+const EXCEL_EPOCH_OFFSET_DAYS = 25569;
+
+/**
+ * Parses a date cell into an ISO date (YYYY-MM-DD), or null if it is empty or invalid.
+ * Accepts ISO date strings and Excel date serial numbers (cells formatted as dates).
+ */
+export function parseDateCell(raw: unknown): string | null {
+  if (typeof raw === 'number' && Number.isFinite(raw) && raw > 0) {
+    const ms = Math.round((Math.floor(raw) - EXCEL_EPOCH_OFFSET_DAYS) * 86_400_000);
+    return new Date(ms).toISOString().slice(0, 10);
+  }
+  const match = ISO_DATE_REGEX.exec(String(raw ?? '').trim());
+  if (!match) return null;
+  const [, year, month, day] = match;
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  return date.getUTCMonth() === Number(month) - 1 && date.getUTCDate() === Number(day)
+    ? date.toISOString().slice(0, 10)
+    : null;
+}
+
 function isValidEmailFormat(value: string): boolean {
   if (!value) return false;
   const parts = value.split('@');
@@ -66,45 +148,58 @@ export interface VerifierColumnConfig {
 }
 
 export interface VerifierConfig {
-  /** Column indices for the shared field checks (UPN, Mail, BMS ID, Local HR ID). */
-  columns: VerifierColumnConfig;
+  /**
+   * Tenant profile: allowed UPN and mail domains and the max. row count.
+   * An invalid profile fails every verify, so no run starts with it.
+   */
+  tenant: TenantConfig;
+  /**
+   * Column indices for the shared field checks (UPN, Mail, BMS ID, Local HR ID).
+   * Omit for tables without these columns (e.g. Offboard); only required, unique, and extra checks run then.
+   */
+  columns?: VerifierColumnConfig;
   /** Columns that must not be empty. */
   requiredColumns: { index: number; name: string }[];
   /** Columns whose values must be unique across all rows. */
   uniqueColumns: { index: number; name: string }[];
-  /** Optional extra validators run per row (return error messages). */
-  extraValidators?: ((row: unknown[]) => string[])[];
+  /** Optional extra validators run per row (return issues, see rowIssue). */
+  extraValidators?: ((row: unknown[]) => RowIssue[])[];
 }
 
-function getRowValidationErrorMessages(
-  row: unknown[],
-  config: VerifierConfig
-): string[] {
-  const messages: string[] = [];
-  const { columns, requiredColumns, extraValidators } = config;
+function getRowValidationIssues(row: unknown[], config: VerifierConfig): RowIssue[] {
+  const issues: RowIssue[] = [];
+  const { tenant, columns, requiredColumns, extraValidators } = config;
 
   // Required fields
   for (const { index, name } of requiredColumns) {
     if (cellValue(row, index) === '') {
-      messages.push(`Required field '${name}' is empty`);
+      issues.push(rowIssue(index, 'required', `Required field '${name}' is empty`));
     }
   }
 
   // Extra validators (e.g. UUID check for Object ID)
   if (extraValidators) {
     for (const validator of extraValidators) {
-      messages.push(...validator(row));
+      issues.push(...validator(row));
     }
   }
 
+  if (!columns) return issues;
+
   // BMS ID or Local HR ID must be present
   const bmsId = cellValue(row, columns.bmsId);
   const localHrId = cellValue(row, columns.localHrId);
   if (bmsId === '' && localHrId === '') {
-    messages.push('BMS ID and Local HR ID are both empty');
+    issues.push(rowIssue(columns.bmsId, 'hr-id-missing', 'BMS ID and Local HR ID are both empty'));
   }
   if (bmsId !== '' && !isValidBmsId(bmsId)) {
-    messages.push('BMS ID must be a number (digits only, no leading zero)');
+    issues.push(
+      rowIssue(
+        columns.bmsId,
+        'bms-id-format',
+        'BMS ID must be a number (digits only, no leading zero)'
+      )
+    );
   }
 
   // UPN format & domain
@@ -113,11 +208,19 @@ function getRowValidationErrorMessages(
 
   if (upn) {
     if (!isValidEmailFormat(upn)) {
-      messages.push('User Principal Name: invalid format');
+      issues.push(
+        rowIssue(columns.userPrincipalName, 'upn-format', 'User Principal Name: invalid format')
+      );
     } else {
       const upnParsed = parseEmail(upn);
-      if (upnParsed && upnParsed.domain !== UPN_DOMAIN.toLowerCase()) {
-        messages.push(`User Principal Name: domain must be ${UPN_DOMAIN}`);
+      if (upnParsed && !tenant.upnDomains.includes(upnParsed.domain)) {
+        issues.push(
+          rowIssue(
+            columns.userPrincipalName,
+            'upn-domain',
+            `User Principal Name: domain must be ${formatDomainList(tenant.upnDomains)}`
+          )
+        );
       }
     }
   }
@@ -125,12 +228,17 @@ function getRowValidationErrorMessages(
   // Mail format & domain
   if (mail) {
     if (!isValidEmailFormat(mail)) {
-      messages.push('Mail: invalid format');
+      issues.push(rowIssue(columns.mail, 'mail-format', 'Mail: invalid format'));
     } else {
       const mailParsed = parseEmail(mail);
-      const allowed = MAIL_DOMAINS.map((d) => d.toLowerCase());
-      if (mailParsed && !allowed.includes(mailParsed.domain)) {
-        messages.push(`Mail: domain must be one of ${MAIL_DOMAINS.join(', ')}`);
+      if (mailParsed && !tenant.mailDomains.includes(mailParsed.domain)) {
+        issues.push(
+          rowIssue(
+            columns.mail,
+            'mail-domain',
+            `Mail: domain must be ${formatDomainList(tenant.mailDomains)}`
+          )
+        );
       }
     }
   }
@@ -144,46 +252,27 @@ function getRowValidationErrorMessages(
       mailParsed &&
       upnParsed.local.toLowerCase() !== mailParsed.local.toLowerCase()
     ) {
-      messages.push('User Principal Name and Mail local part do not match');
+      issues.push(
+        rowIssue(
+          columns.mail,
+          'upn-mail-mismatch',
+          'User Principal Name and Mail local part do not match'
+        )
+      );
     }
   }
 
-  return messages;
+  return issues;
 }
 
-function getRowDuplicateMessages(
+/** Returns, per row, the duplicate issues of the unique columns. */
+function getDuplicateIssues(
   rows: unknown[][],
-  rowIndex: number,
   uniqueColumns: { index: number; name: string }[]
-): string[] {
-  const messages: string[] = [];
-  const row = rows[rowIndex] ?? [];
+): Map<number, RowIssue[]> {
+  const duplicates = new Map<number, RowIssue[]>();
 
   for (const { index, name } of uniqueColumns) {
-    const value = cellValue(row, index);
-    if (value === '') continue;
-    const key = value.toLowerCase();
-    const indices: number[] = [];
-    for (let i = 0; i < rows.length; i++) {
-      if (cellValue(rows[i], index).toLowerCase() === key) {
-        indices.push(i);
-      }
-    }
-    if (indices.length > 1) {
-      messages.push(`Duplicate value in '${name}'`);
-    }
-  }
-
-  return messages;
-}
-
-function findRowsWithDuplicateUniqueValues(
-  rows: unknown[][],
-  uniqueColumns: { index: number; name: string }[]
-): Set<number> {
-  const duplicateRowIndices = new Set<number>();
-
-  for (const { index } of uniqueColumns) {
     const valueToRowIndices = new Map<string, number[]>();
     for (let i = 0; i < rows.length; i++) {
       const value = cellValue(rows[i], index);
@@ -194,48 +283,111 @@ function findRowsWithDuplicateUniqueValues(
       valueToRowIndices.set(key, list);
     }
     for (const indices of valueToRowIndices.values()) {
-      if (indices.length > 1) {
-        indices.forEach((i) => duplicateRowIndices.add(i));
+      if (indices.length < 2) continue;
+      for (const i of indices) {
+        const issue = rowIssue(index, 'duplicate', `Duplicate value in '${name}'`);
+        duplicates.set(i, [...(duplicates.get(i) ?? []), issue]);
       }
     }
   }
 
-  return duplicateRowIndices;
+  return duplicates;
+}
+
+/**
+ * Additional per-row issues from checks that run outside the verifier
+ * (e.g. Graph lookups), keyed by 0-based row index.
+ */
+export type RowIssues = ReadonlyMap<number, RowIssue[]>;
+
+/** Findings from checks that run outside the verifier (e.g. Graph lookups). */
+export interface ExternalFindings {
+  rowIssues: RowIssues;
+  /** Batch-level warnings that do not belong to a row. */
+  warnings: string[];
+}
+
+/** Combines the row issues of several external checks. */
+export function mergeRowIssues(...sources: RowIssues[]): RowIssues {
+  const merged = new Map<number, RowIssue[]>();
+  for (const source of sources) {
+    source.forEach((issues, i) => {
+      merged.set(i, [...(merged.get(i) ?? []), ...issues]);
+    });
+  }
+  return merged;
+}
+
+/**
+ * Sets the column of issues reported without one (external checks do not know the table layout).
+ */
+export function withIssueColumn(source: RowIssues, column: number): RowIssues {
+  const result = new Map<number, RowIssue[]>();
+  source.forEach((issues, i) => {
+    result.set(
+      i,
+      issues.map((issue) => (issue.column === null ? { ...issue, column } : issue))
+    );
+  });
+  return result;
+}
+
+const SEVERITY_PREFIX: Record<IssueSeverity, string> = {
+  error: '',
+  warning: 'Warning: ',
+  info: 'Info: ',
+};
+
+/** Formats issues for a cell note, one per line; warnings and info are prefixed. */
+export function formatIssues(issues: RowIssue[]): string {
+  return issues.map((issue) => SEVERITY_PREFIX[issue.severity] + issue.message).join('\n');
 }
 
 export interface Verifier {
   /** Validates rows and returns the result summary. */
-  verify(rows: unknown[][]): VerifyUsersResult;
-  /** Returns a human-readable problem description for a single row, or empty string. */
-  getRowProblemDescription(rows: unknown[][], rowIndex: number): string;
+  verify(rows: unknown[][], findings?: ExternalFindings): VerifyUsersResult;
 }
 
 /**
  * Creates a verifier with the given column configuration.
- * Used by both CreateUsers and UpdateUsers validation.
+ * Used by the CreateUsers, UpdateUsers, and OffboardUsers validation.
  */
 export function createVerifier(config: VerifierConfig): Verifier {
-  const PROBLEM_MESSAGE_SEPARATOR = '\n';
+  function getRowIssues(
+    rows: unknown[][],
+    rowIndex: number,
+    duplicates: Map<number, RowIssue[]>,
+    rowIssues?: RowIssues
+  ): RowIssue[] {
+    const row = rows[rowIndex];
+    if (!row) return [];
+    return [
+      ...getRowValidationIssues(row, config),
+      ...(duplicates.get(rowIndex) ?? []),
+      ...(rowIssues?.get(rowIndex) ?? []),
+    ];
+  }
 
-  function verify(rows: unknown[][]): VerifyUsersResult {
+  function verify(rows: unknown[][], findings?: ExternalFindings): VerifyUsersResult {
     const totalRows = rows.length;
-    const problemRowIndicesSet = new Set<number>();
+    const duplicates = getDuplicateIssues(rows, config.uniqueColumns);
 
+    const issues: ValidationIssue[] = [];
+    const problemRowIndices: number[] = [];
     for (let i = 0; i < rows.length; i++) {
-      if (getRowValidationErrorMessages(rows[i], config).length > 0) {
-        problemRowIndicesSet.add(i);
+      const rowIssues = getRowIssues(rows, i, duplicates, findings?.rowIssues);
+      issues.push(...rowIssues.map((issue) => ({ ...issue, row: i })));
+      if (rowIssues.some((issue) => issue.severity === 'error')) {
+        problemRowIndices.push(i);
       }
     }
 
-    const duplicateRows = findRowsWithDuplicateUniqueValues(rows, config.uniqueColumns);
-    duplicateRows.forEach((i) => problemRowIndicesSet.add(i));
-
-    const problemRowIndices = [...problemRowIndicesSet].sort((a, b) => a - b);
     const problemCount = problemRowIndices.length;
     const okCount = totalRows - problemCount;
 
-    const overMaxRows = totalRows > MAX_DATA_ROWS;
-    const success = problemCount === 0 && !overMaxRows;
+    const overMaxRows = totalRows > config.tenant.maxRows;
+    const tenantProblems = validateTenantConfig(config.tenant);
+    const success = problemCount === 0 && !overMaxRows && tenantProblems.length === 0;
 
     return {
       success,
@@ -243,20 +395,11 @@ export function createVerifier(config: VerifierConfig): Verifier {
       okCount,
       problemCount,
       problemRowIndices,
+      issues,
+      warnings: findings?.warnings ?? [],
+      tenantProblems,
     };
   }
 
-  function getRowProblemDescription(
-    rows: unknown[][],
-    rowIndex: number
-  ): string {
-    const row = rows[rowIndex];
-    if (!row) return '';
-    const validation = getRowValidationErrorMessages(row, config);
-    const duplicates = getRowDuplicateMessages(rows, rowIndex, config.uniqueColumns);
-    const all = [...validation, ...duplicates];
-    return all.length === 0 ? '' : all.join(PROBLEM_MESSAGE_SEPARATOR);
-  }
-
-  return { verify, getRowProblemDescription };
+  return { verify };
 }
@@ -0,0 +1,81 @@
+/**
+ * Validation for the "OffboardUsers" table.
+ * Uses the shared verifyCore engine without the UPN/Mail/HR ID field checks
+ * (the table only identifies existing users).
+ */
+
+import {
+  cellValue,
+  createVerifier,
+  noInputTableResult,
+  parseDateCell,
+  rowIssue,
+  type RowIssue,
+  type Verifier,
+  type VerifyUsersResult,
+} from './verifyCore';
+import { localToday } from './offboardUser';
+import { OFFBOARD_TABLE } from './tableColumns';
+import type { TenantConfig } from './tenantConfig';
+
+// Re-export for convenience.
+export type { VerifyUsersResult } from './verifyCore';
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const COL = OFFBOARD_TABLE.col;
+
+/** Builds the OffboardUsers verifier for a tenant profile (max. row count). */
+function createOffboardVerifier(tenant: TenantConfig): Verifier {
+  return createVerifier({
+    tenant,
+    requiredColumns: [
+      { index: COL.user, name: 'User Principal Name or Object ID' },
+      { index: COL.leavingDate, name: 'Leaving Date' },
+      { index: COL.snTicketId, name: 'SN Ticket ID' },
+    ],
+    uniqueColumns: [{ index: COL.user, name: 'User Principal Name or Object ID' }],
+    extraValidators: [
+      (row: unknown[]) => {
+        const issues: RowIssue[] = [];
+        const user = cellValue(row, COL.user);
+        if (user !== '' && !UUID_REGEX.test(user) && !/^[^@\s]+@[^@\s]+$/.test(user)) {
+          issues.push(
+            rowIssue(
+              COL.user,
+              'user-format',
+              'User Principal Name or Object ID: must be a UPN or a valid UUID'
+            )
+          );
+        }
+        if (cellValue(row, COL.leavingDate) !== '') {
+          const leavingDate = parseDateCell(row[COL.leavingDate]);
+          if (leavingDate === null) {
+            issues.push(
+              rowIssue(COL.leavingDate, 'date-format', 'Leaving Date must be a date (YYYY-MM-DD)')
+            );
+          } else if (leavingDate > localToday()) {
+            issues.push(
+              rowIssue(
+                COL.leavingDate,
+                'leaving-date-future',
+                'Leaving Date is in the future; the user will be skipped',
+                'info'
+              )
+            );
+          }
+        }
+        return issues;
+      },
+    ],
+  });
+}
+
+/** Result to return when the OffboardUsers table was not found (no offboard data). */
+export const NO_INPUT_TABLE_OFFBOARD_VERIFY_RESULT: VerifyUsersResult = noInputTableResult();
+
+/** Validates the OffboardUsers table data rows. */
+export function verifyOffboardUsers(rows: unknown[][], tenant: TenantConfig): VerifyUsersResult {
+  return createOffboardVerifier(tenant).verify(rows);
+}
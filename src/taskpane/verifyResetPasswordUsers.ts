@@ -0,0 +1,51 @@
+/**
+ * Validation for the "ResetPasswordUsers" table.
+ * Uses the shared verifyCore engine without the Mail/HR ID field checks.
+ */
+
+import {
+  cellValue,
+  createVerifier,
+  noInputTableResult,
+  rowIssue,
+  type Verifier,
+  type VerifyUsersResult,
+} from './verifyCore';
+import { RESET_PASSWORD_TABLE } from './tableColumns';
+import type { TenantConfig } from './tenantConfig';
+
+// Re-export for convenience.
+export type { VerifyUsersResult } from './verifyCore';
+
+const COL = RESET_PASSWORD_TABLE.col;
+
+/** Builds the ResetPasswordUsers verifier for a tenant profile (max. row count). */
+function createResetPasswordVerifier(tenant: TenantConfig): Verifier {
+  return createVerifier({
+    tenant,
+    requiredColumns: [{ index: COL.userPrincipalName, name: 'User Principal Name' }],
+    uniqueColumns: [{ index: COL.userPrincipalName, name: 'User Principal Name' }],
+    extraValidators: [
+      (row: unknown[]) => {
+        const upn = cellValue(row, COL.userPrincipalName);
+        if (upn !== '' && !/^[^@\s]+@[^@\s]+$/.test(upn)) {
+          return [
+            rowIssue(COL.userPrincipalName, 'upn-format', 'User Principal Name: invalid format'),
+          ];
+        }
+        return [];
+      },
+    ],
+  });
+}
+
+/** Result to return when the ResetPasswordUsers table was not found (no data). */
+export const NO_INPUT_TABLE_RESET_PASSWORD_VERIFY_RESULT: VerifyUsersResult = noInputTableResult();
+
+/** Validates the ResetPasswordUsers table data rows. */
+export function verifyResetPasswordUsers(
+  rows: unknown[][],
+  tenant: TenantConfig
+): VerifyUsersResult {
+  return createResetPasswordVerifier(tenant).verify(rows);
+}
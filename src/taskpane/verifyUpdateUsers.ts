@@ -1,76 +1,166 @@
 /**
  * Validation for the "UpdateUsers" table.
- * Uses the shared verifyCore engine with Update-specific column configuration.
- * Object ID at index 0, then same columns as Create shifted by 1.
+ * Uses the shared verifyCore engine; required and unique columns and format checks come from
+ * the attribute schema (userAttributes.ts), cross-column checks are Update-specific.
  */
 
 import {
   cellValue,
   createVerifier,
+  mergeRowIssues,
   noInputTableResult,
+  rowIssue,
+  withIssueColumn,
+  type ExternalFindings,
+  type RowIssue,
+  type Verifier,
   type VerifyUsersResult,
 } from './verifyCore';
+import type { GraphRequestOptions } from './graphHelpers';
+import type { TokenSession } from './tokenSession';
+import { checkManagers, type ManagerCheck } from './managerAssignment';
+import { checkCollisions } from './collisionCheck';
+import { getSnapshotEntry, type UpdateSnapshot } from './updateSnapshot';
+import { attributeVerifierConfig, UPDATE_TABLE } from './userAttributes';
+import type { TenantConfig } from './tenantConfig';
 
 // Re-export for convenience.
 export type { VerifyUsersResult } from './verifyCore';
 
-const UUID_REGEX =
-  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const COL = UPDATE_TABLE.col;
 
-/** Column indices for the UpdateUsers table (Object ID prepended). */
-const COL = {
-  objectId: 0,
-  userPrincipalName: 1,
-  mail: 2,
-  bmsId: 3,
-  localHrId: 4,
-  firstName: 6,
-  lastName: 7,
-  displayName: 8,
-  country: 9,
-  city: 10,
-} as const;
-
-const updateVerifierInstance = createVerifier({
-  columns: {
-    userPrincipalName: COL.userPrincipalName,
-    mail: COL.mail,
-    bmsId: COL.bmsId,
-    localHrId: COL.localHrId,
-  },
-  requiredColumns: [
-    { index: COL.objectId, name: 'Object ID' },
-    { index: COL.userPrincipalName, name: 'User Principal Name' },
-    { index: COL.mail, name: 'Mail' },
-    { index: COL.firstName, name: 'First Name' },
-    { index: COL.lastName, name: 'Last Name' },
-    { index: COL.displayName, name: 'Display Name' },
-    { index: COL.country, name: 'Country' },
-    { index: COL.city, name: 'City' },
-  ],
-  uniqueColumns: [
-    { index: COL.objectId, name: 'Object ID' },
-    { index: COL.userPrincipalName, name: 'User Principal Name' },
-    { index: COL.mail, name: 'Mail' },
-    { index: COL.bmsId, name: 'BMS ID' },
-    { index: COL.localHrId, name: 'Local HR ID' },
-  ],
-  extraValidators: [
-    (row: unknown[]) => {
-      const objectId = cellValue(row, COL.objectId);
-      if (objectId !== '' && !UUID_REGEX.test(objectId)) {
-        return ['Object ID must be a valid UUID'];
-      }
-      return [];
+/** Builds the UpdateUsers verifier for a tenant profile. */
+function createUpdateVerifier(tenant: TenantConfig): Verifier {
+  const attributes = attributeVerifierConfig('update', tenant);
+  return createVerifier({
+    tenant,
+    columns: {
+      userPrincipalName: COL.userPrincipalName,
+      mail: COL.mail,
+      bmsId: COL.bmsId,
+      localHrId: COL.localHrId,
     },
-  ],
-});
+    requiredColumns: attributes.requiredColumns,
+    uniqueColumns: attributes.uniqueColumns,
+    extraValidators: [
+      attributes.checkAttributes,
+      (row: unknown[]) => {
+        const managerUpn = cellValue(row, COL.managerUpn);
+        if (
+          managerUpn !== '' &&
+          managerUpn.toLowerCase() === cellValue(row, COL.userPrincipalName).toLowerCase()
+        ) {
+          return [
+            rowIssue(
+              COL.managerUpn,
+              'manager-self',
+              'Manager UPN: a user cannot be their own manager'
+            ),
+          ];
+        }
+        return [];
+      },
+    ],
+  });
+}
 
 /** Result to return when the UpdateUsers table was not found (no update data). */
 export const NO_INPUT_TABLE_UPDATE_VERIFY_RESULT: VerifyUsersResult = noInputTableResult();
 
 /** Validates the UpdateUsers table data rows. */
-export const verifyUpdateUsers = updateVerifierInstance.verify;
+export function verifyUpdateUsers(
+  rows: unknown[][],
+  tenant: TenantConfig,
+  findings?: ExternalFindings
+): VerifyUsersResult {
+  return createUpdateVerifier(tenant).verify(rows, findings);
+}
+
+export interface UpdateOnlineChecks {
+  managers: ManagerCheck;
+  /** Combined findings to pass to verifyUpdateUsers and applyUpdateVerifyResultToSheet. */
+  findings: ExternalFindings;
+}
+
+export interface UpdateOnlineCheckOptions extends GraphRequestOptions {
+  /** Also check for UPN, mail, BMS ID and Object ID collisions with other users (checkCollisions). */
+  collisions?: boolean;
+  /**
+   * Loaded values; the Object ID check expects the loaded UPN, so UPN changes are not reported,
+   * and managers unchanged since Load Data only get warnings.
+   */
+  snapshot?: UpdateSnapshot;
+}
+
+/** Whether the Manager UPN of a row differs from the loaded one (or the row was not loaded). */
+function managerChanged(row: unknown[], snapshot: UpdateSnapshot | undefined): boolean {
+  const entry = snapshot && getSnapshotEntry(snapshot, cellValue(row, COL.objectId));
+  return !entry || cellValue(row, COL.managerUpn) !== (entry.values[COL.managerUpn] ?? '').trim();
+}
 
-/** Returns a human-readable problem description for a row, or empty string. */
-export const getUpdateRowProblemDescription = updateVerifierInstance.getRowProblemDescription;
+/**
+ * Runs the Graph-backed checks for the UpdateUsers table: manager resolution and optionally collisions.
+ * The manager resolution is reused by Update. A manager that did not change since Load Data is
+ * not sent by Update, so its problems (e.g. a since disabled manager) are only warnings.
+ */
+export async function runUpdateOnlineChecks(
+  rows: unknown[][],
+  session: TokenSession,
+  options: UpdateOnlineCheckOptions = {}
+): Promise<UpdateOnlineChecks> {
+  const managers = await checkManagers(
+    rows.map((row) => ({
+      managerUpn: cellValue(row, COL.managerUpn),
+      objectId: cellValue(row, COL.objectId),
+    })),
+    session,
+    options
+  );
+  const managerIssues = new Map<number, RowIssue[]>();
+  managers.rowIssues.forEach((issues, i) => {
+    managerIssues.set(
+      i,
+      managerChanged(rows[i] ?? [], options.snapshot)
+        ? issues
+        : issues.map((issue) => ({
+            ...issue,
+            severity: 'warning',
+            message: `${issue.message} (unchanged since Load Data)`,
+          }))
+    );
+  });
+  const collisions = options.collisions
+    ? await checkCollisions(
+        rows.map((row) => {
+          const objectId = cellValue(row, COL.objectId);
+          const userPrincipalName = cellValue(row, COL.userPrincipalName);
+          const entry = options.snapshot && getSnapshotEntry(options.snapshot, objectId);
+          return {
+            userPrincipalName,
+            mail: cellValue(row, COL.mail),
+            employeeId: cellValue(row, COL.bmsId),
+            objectId,
+            expectedUserPrincipalName: entry?.values[COL.userPrincipalName] || userPrincipalName,
+          };
+        }),
+        {
+          userPrincipalName: COL.userPrincipalName,
+          mail: COL.mail,
+          employeeId: COL.bmsId,
+          objectId: COL.objectId,
+        },
+        session,
+        options
+      )
+    : { rowIssues: new Map(), warnings: [] };
+  return {
+    managers,
+    findings: {
+      rowIssues: mergeRowIssues(
+        withIssueColumn(managerIssues, COL.managerUpn),
+        collisions.rowIssues
+      ),
+      warnings: collisions.warnings,
+    },
+  };
+}
@@ -1,60 +1,154 @@
 /**
  * Validation for the "CreateUsers" table.
- * Uses the shared verifyCore engine with Create-specific column configuration.
+ * Uses the shared verifyCore engine; required and unique columns and format checks come from
+ * the attribute schema (userAttributes.ts), cross-column checks are Create-specific.
  */
 
 import {
+  cellValue,
   createVerifier,
+  mergeRowIssues,
   noInputTableResult,
+  rowIssue,
+  withIssueColumn,
+  type ExternalFindings,
+  type RowIssue,
+  type Verifier,
   type VerifyUsersResult,
 } from './verifyCore';
+import type { GraphRequestOptions } from './graphHelpers';
+import type { TokenSession } from './tokenSession';
+import { checkGroups, type GroupCheck } from './groupMembership';
+import { checkLicenses, parseSkuRefs, type LicenseCheck } from './licenseAssignment';
+import { checkManagers, type ManagerCheck } from './managerAssignment';
+import { checkCollisions } from './collisionCheck';
+import { attributeVerifierConfig, CREATE_TABLE } from './userAttributes';
+import type { TenantConfig } from './tenantConfig';
 
-// Re-export shared types and constants so existing imports keep working.
-export type { VerifyUsersResult } from './verifyCore';
-export { UPN_DOMAIN, MAIL_DOMAINS, MAX_DATA_ROWS } from './verifyCore';
-
-/** Column indices matching USERS_TABLE_HEADERS in App.tsx. */
-const COL = {
-  userPrincipalName: 0,
-  mail: 1,
-  bmsId: 2,
-  localHrId: 3,
-  firstName: 5,
-  lastName: 6,
-  displayName: 7,
-  country: 8,
-  city: 9,
-} as const;
-
-const createVerifierInstance = createVerifier({
-  columns: {
-    userPrincipalName: COL.userPrincipalName,
-    mail: COL.mail,
-    bmsId: COL.bmsId,
-    localHrId: COL.localHrId,
-  },
-  requiredColumns: [
-    { index: COL.userPrincipalName, name: 'User Principal Name' },
-    { index: COL.mail, name: 'Mail' },
-    { index: COL.firstName, name: 'First Name' },
-    { index: COL.lastName, name: 'Last Name' },
-    { index: COL.displayName, name: 'Display Name' },
-    { index: COL.country, name: 'Country' },
-    { index: COL.city, name: 'City' },
-  ],
-  uniqueColumns: [
-    { index: COL.userPrincipalName, name: 'User Principal Name' },
-    { index: COL.mail, name: 'Mail' },
-    { index: COL.bmsId, name: 'BMS ID' },
-    { index: COL.localHrId, name: 'Local HR ID' },
-  ],
-});
+// Re-export shared types so existing imports keep working.
+export type { VerifyUsersResult, RowIssues } from './verifyCore';
+
+const COL = CREATE_TABLE.col;
+
+/** Builds the CreateUsers verifier for a tenant profile. */
+function createUsersVerifier(tenant: TenantConfig): Verifier {
+  const attributes = attributeVerifierConfig('create', tenant);
+  return createVerifier({
+    tenant,
+    columns: {
+      userPrincipalName: COL.userPrincipalName,
+      mail: COL.mail,
+      bmsId: COL.bmsId,
+      localHrId: COL.localHrId,
+    },
+    requiredColumns: attributes.requiredColumns,
+    uniqueColumns: attributes.uniqueColumns,
+    extraValidators: [
+      attributes.checkAttributes,
+      (row: unknown[]) => {
+        const issues: RowIssue[] = [];
+        const usageLocation = cellValue(row, COL.usageLocation);
+        if (usageLocation === '' && parseSkuRefs(cellValue(row, COL.licenseSkus)).length > 0) {
+          issues.push(
+            rowIssue(
+              COL.usageLocation,
+              'usage-location-missing',
+              'Usage Location is required when License SKUs are set'
+            )
+          );
+        }
+        const managerUpn = cellValue(row, COL.managerUpn);
+        if (
+          managerUpn !== '' &&
+          managerUpn.toLowerCase() === cellValue(row, COL.userPrincipalName).toLowerCase()
+        ) {
+          issues.push(
+            rowIssue(
+              COL.managerUpn,
+              'manager-self',
+              'Manager UPN: a user cannot be their own manager'
+            )
+          );
+        }
+        return issues;
+      },
+    ],
+  });
+}
 
 /** Result to return when the CreateUsers table was not found (no create data). */
 export const NO_INPUT_TABLE_VERIFY_RESULT: VerifyUsersResult = noInputTableResult();
 
 /** Validates the CreateUsers table data rows. */
-export const verifyUsers = createVerifierInstance.verify;
+export function verifyUsers(
+  rows: unknown[][],
+  tenant: TenantConfig,
+  findings?: ExternalFindings
+): VerifyUsersResult {
+  return createUsersVerifier(tenant).verify(rows, findings);
+}
+
+export interface CreateOnlineChecks {
+  groups: GroupCheck;
+  licenses: LicenseCheck;
+  managers: ManagerCheck;
+  /** Combined findings to pass to verifyUsers and applyVerifyResultToSheet. */
+  findings: ExternalFindings;
+}
 
-/** Returns a human-readable problem description for a row, or empty string. */
-export const getRowProblemDescription = createVerifierInstance.getRowProblemDescription;
+export interface CreateOnlineCheckOptions extends GraphRequestOptions {
+  /** Also check for UPN, mail and BMS ID collisions with existing users (checkCollisions). */
+  collisions?: boolean;
+}
+
+/**
+ * Runs the Graph-backed checks for the CreateUsers table: group resolution,
+ * License SKUs, free seats, managers, and optionally collisions. The resolutions are reused by Create.
+ */
+export async function runCreateOnlineChecks(
+  rows: unknown[][],
+  session: TokenSession,
+  options: CreateOnlineCheckOptions = {}
+): Promise<CreateOnlineChecks> {
+  const groups = await checkGroups(
+    rows.map((row) => cellValue(row, COL.groups)),
+    session,
+    options
+  );
+  const licenses = await checkLicenses(
+    rows.map((row) => cellValue(row, COL.licenseSkus)),
+    session,
+    options
+  );
+  const managers = await checkManagers(
+    rows.map((row) => ({ managerUpn: cellValue(row, COL.managerUpn) })),
+    session,
+    options
+  );
+  const collisions = options.collisions
+    ? await checkCollisions(
+        rows.map((row) => ({
+          userPrincipalName: cellValue(row, COL.userPrincipalName),
+          mail: cellValue(row, COL.mail),
+          employeeId: cellValue(row, COL.bmsId),
+        })),
+        { userPrincipalName: COL.userPrincipalName, mail: COL.mail, employeeId: COL.bmsId },
+        session,
+        options
+      )
+    : { rowIssues: new Map(), warnings: [] };
+  return {
+    groups,
+    licenses,
+    managers,
+    findings: {
+      rowIssues: mergeRowIssues(
+        withIssueColumn(groups.rowIssues, COL.groups),
+        withIssueColumn(licenses.rowIssues, COL.licenseSkus),
+        withIssueColumn(managers.rowIssues, COL.managerUpn),
+        collisions.rowIssues
+      ),
+      warnings: [...licenses.warnings, ...collisions.warnings],
+    },
+  };
+}